@@ -0,0 +1,168 @@
+/**
+ * Stable identifiers for the failures peer lease operations surface. Branch
+ * on `error.code` rather than on messages, which may change between releases.
+ */
+export type PeerLeaseErrorCode =
+  | "aborted"
+  | "timeout"
+  | "generator-exhausted"
+  | "storage-unavailable"
+  | "quota-exceeded"
+  | "double-release"
+  | "stale-lease"
+  | "unsupported-schema"
+  | "corrupt-record";
+
+/**
+ * Base class of every error the peer lease raises at runtime. Invalid
+ * arguments are still reported as `TypeError`.
+ */
+export class PeerLeaseError extends Error {
+  readonly code: PeerLeaseErrorCode;
+
+  constructor(code: PeerLeaseErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "PeerLeaseError";
+    this.code = code;
+  }
+}
+
+/**
+ * Thrown when the `AbortSignal` passed to an acquire call fires before the
+ * critical section starts. Nothing has been read or written at that point, so
+ * callers can simply drop the attempt. The signal's reason is kept as `cause`.
+ */
+export class PeerLeaseAbortError extends PeerLeaseError {
+  constructor(message = "Peer lease acquisition was aborted", options?: { cause?: unknown }) {
+    super("aborted", message, options);
+    this.name = "PeerLeaseAbortError";
+  }
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new PeerLeaseAbortError(undefined, { cause: signal.reason });
+  }
+}
+
+/**
+ * Thrown when a mutex could not be acquired within its timeout, usually
+ * because another tab or process holds it.
+ */
+export class PeerLeaseTimeoutError extends PeerLeaseError {
+  constructor(message = "Timed out acquiring the peer lease mutex", options?: { cause?: unknown }) {
+    super("timeout", message, options);
+    this.name = "PeerLeaseTimeoutError";
+  }
+}
+
+/**
+ * Thrown when the peer ID generator keeps returning IDs that are already in
+ * use, or returns no usable ID at all.
+ */
+export class PeerLeaseGeneratorError extends PeerLeaseError {
+  constructor(message = "Peer ID generator produced duplicate values", options?: { cause?: unknown }) {
+    super("generator-exhausted", message, options);
+    this.name = "PeerLeaseGeneratorError";
+  }
+}
+
+/**
+ * Thrown when the storage backend cannot be reached or fails a read or write
+ * for reasons other than quota. The backend's error is kept as `cause`.
+ */
+export class PeerLeaseStorageError extends PeerLeaseError {
+  constructor(message = "Peer lease storage is unavailable", options?: { cause?: unknown }) {
+    super("storage-unavailable", message, options);
+    this.name = "PeerLeaseStorageError";
+  }
+}
+
+/**
+ * Thrown when a lease that was already released is released again with a
+ * different document version. Repeating the original version is allowed and
+ * returns the first release's promise.
+ */
+export class PeerLeaseDoubleReleaseError extends PeerLeaseError {
+  readonly peerId: string;
+
+  constructor(peerId: string) {
+    super("double-release", `Peer lease ${peerId} was already released with another version`);
+    this.name = "PeerLeaseDoubleReleaseError";
+    this.peerId = peerId;
+  }
+}
+
+/**
+ * Thrown when a release comes from a holder whose lease expired and was
+ * handed to someone else. The release is ignored so the newer holder keeps
+ * the ID.
+ */
+export class PeerLeaseStaleLeaseError extends PeerLeaseError {
+  readonly peerId: string;
+  readonly epoch: number;
+
+  constructor(peerId: string, epoch: number) {
+    super(
+      "stale-lease",
+      `Peer lease ${peerId} (epoch ${epoch}) was superseded by a newer holder; release rejected`,
+    );
+    this.name = "PeerLeaseStaleLeaseError";
+    this.peerId = peerId;
+    this.epoch = epoch;
+  }
+}
+
+/**
+ * Thrown when storage rejects a write because its quota is exhausted and
+ * compacting the cached peer IDs did not free enough space. The original
+ * storage error is kept as `cause`.
+ */
+export class PeerLeaseQuotaError extends PeerLeaseError {
+  constructor(message = "Peer lease storage quota exceeded", options?: { cause?: unknown }) {
+    super("quota-exceeded", message, options);
+    this.name = "PeerLeaseQuotaError";
+  }
+}
+
+/**
+ * Recognizes quota failures across browsers (`QuotaExceededError`, Firefox's
+ * legacy `NS_ERROR_DOM_QUOTA_REACHED`) and full disks in Node.
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (error instanceof PeerLeaseQuotaError) {
+    return true;
+  }
+
+  if (!error || typeof error !== "object") {
+    return false;
+  }
+
+  const { name, code } = error as { name?: unknown; code?: unknown };
+  return (
+    name === "QuotaExceededError" ||
+    name === "NS_ERROR_DOM_QUOTA_REACHED" ||
+    code === 22 ||
+    code === 1014 ||
+    code === "ENOSPC" ||
+    code === "EDQUOT"
+  );
+}
+
+export function toQuotaError(error: unknown): PeerLeaseQuotaError {
+  return error instanceof PeerLeaseQuotaError ? error : new PeerLeaseQuotaError(undefined, { cause: error });
+}
+
+/**
+ * Wraps a storage backend failure in the matching peer lease error, leaving
+ * errors that already carry a code untouched.
+ */
+export function toStorageError(error: unknown): PeerLeaseError {
+  if (error instanceof PeerLeaseError) {
+    return error;
+  }
+  if (isQuotaExceededError(error)) {
+    return toQuotaError(error);
+  }
+  return new PeerLeaseStorageError(undefined, { cause: error });
+}
@@ -0,0 +1,226 @@
+import {
+  BroadcastChannelLike,
+  attachBroadcastListener,
+  createBroadcastChannel,
+  safeInvoke,
+  unrefHandle,
+} from "./lock.js";
+
+interface PeerLeaseEventBase {
+  docId: string;
+  /** Epoch-millisecond timestamp taken when the event was emitted. */
+  at: number;
+}
+
+export interface PeerLeaseAcquiredEvent extends PeerLeaseEventBase {
+  type: "acquired";
+  peerId: string;
+  epoch: number;
+  version: string;
+  /** `true` when a cached peer ID was reused, `false` when one was generated. */
+  reused: boolean;
+}
+
+export interface PeerLeaseReleasedEvent extends PeerLeaseEventBase {
+  type: "released";
+  peerId: string;
+  epoch: number;
+  version: string;
+}
+
+export interface PeerLeaseReleaseRejectedEvent extends PeerLeaseEventBase {
+  type: "release-rejected";
+  peerId: string;
+  epoch?: number;
+  version: string;
+}
+
+export interface PeerLeaseStaleReclaimedEvent extends PeerLeaseEventBase {
+  type: "stale-reclaimed";
+  peerId: string;
+  epoch?: number;
+  version: string;
+  /**
+   * `expired` – the holder stopped sending heartbeats and the ID was dropped.
+   * `checkpointed` – the holder stopped sending heartbeats and the ID was
+   * returned to the available pool at its last checkpoint (`version`).
+   * `holder-lost` – the holder's Web Lock vanished and the ID was returned to
+   * the available pool.
+   */
+  reason: "expired" | "checkpointed" | "holder-lost";
+}
+
+export interface PeerLeaseBurnedEvent extends PeerLeaseEventBase {
+  type: "burned";
+  /** An ID found to collide with foreign ops; it is never handed out again. */
+  peerId: string;
+  epoch: number;
+}
+
+export interface PeerLeaseResetEvent extends PeerLeaseEventBase {
+  type: "reset";
+}
+
+export interface PeerLeasePendingDrainedEvent extends PeerLeaseEventBase {
+  type: "pending-drained";
+  /** Releases staged synchronously (e.g. during `pagehide`) that were folded into the state. */
+  entries: Array<{ peerId: string; version: string; epoch?: number }>;
+}
+
+export interface PeerLeaseFallbackEvent extends PeerLeaseEventBase {
+  type: "fallback";
+  /** An ID handed out without being recorded, because the storage is full. */
+  peerId: string;
+  version: string;
+}
+
+export interface PeerLeaseStateCorruptedEvent extends PeerLeaseEventBase {
+  type: "state-corrupted";
+  /** Which record failed its integrity check. */
+  record: "state" | "pending";
+  /**
+   * `backup` – the last-known-good copy was restored.
+   * `reset` – no usable backup existed and the document started empty.
+   * `discarded` – the staged releases were dropped; their IDs stay active
+   * until they expire, so no ID is handed out twice.
+   */
+  recovery: "backup" | "reset" | "discarded";
+  reason: string;
+}
+
+export type PeerLeaseEvent =
+  | PeerLeaseAcquiredEvent
+  | PeerLeaseReleasedEvent
+  | PeerLeaseReleaseRejectedEvent
+  | PeerLeaseStaleReclaimedEvent
+  | PeerLeaseBurnedEvent
+  | PeerLeaseResetEvent
+  | PeerLeasePendingDrainedEvent
+  | PeerLeaseFallbackEvent
+  | PeerLeaseStateCorruptedEvent;
+
+export type PeerLeaseEventListener = (event: PeerLeaseEvent) => void;
+
+type WithoutTimestamp<E> = E extends PeerLeaseEvent ? Omit<E, "at"> : never;
+
+/** An event as produced by the lease code, before the hub stamps it. */
+export type PeerLeaseEventInit = WithoutTimestamp<PeerLeaseEvent>;
+
+const MESSAGE_TYPE = "peer-lease:event";
+const EVENT_TYPES: ReadonlySet<string> = new Set([
+  "acquired",
+  "released",
+  "release-rejected",
+  "stale-reclaimed",
+  "burned",
+  "reset",
+  "pending-drained",
+  "fallback",
+  "state-corrupted",
+]);
+
+/**
+ * Fans lease events out to listeners in this context and, through one
+ * `BroadcastChannel` per document, to listeners in other tabs and workers.
+ * A document's channel stays open only while it has local listeners.
+ */
+export class LeaseEventHub {
+  private readonly channelPrefix: string;
+  private readonly listeners = new Map<string, Set<PeerLeaseEventListener>>();
+  private readonly channels = new Map<string, BroadcastChannelLike | null>();
+
+  constructor(channelPrefix: string) {
+    this.channelPrefix = channelPrefix;
+  }
+
+  subscribe(docId: string, listener: PeerLeaseEventListener): () => void {
+    let docListeners = this.listeners.get(docId);
+    if (!docListeners) {
+      docListeners = new Set();
+      this.listeners.set(docId, docListeners);
+      // Open the channel with the first listener so events from other tabs reach us.
+      this.channels.set(docId, this.openChannel(docId));
+    }
+
+    docListeners.add(listener);
+
+    return () => {
+      docListeners.delete(listener);
+      if (docListeners.size === 0 && this.listeners.get(docId) === docListeners) {
+        this.listeners.delete(docId);
+        this.channels.get(docId)?.close();
+        this.channels.delete(docId);
+      }
+    };
+  }
+
+  emit(init: PeerLeaseEventInit): void {
+    const event = { ...init, at: Date.now() } as PeerLeaseEvent;
+    this.dispatch(event);
+
+    const open = this.channels.get(event.docId);
+    // Without local listeners no channel is open, so post through a short-lived one.
+    const channel = this.channels.has(event.docId) ? open : this.createChannel(event.docId);
+    try {
+      channel?.postMessage({ type: MESSAGE_TYPE, event });
+    } catch {
+      // Ignore broadcast failures; local listeners were already notified.
+    } finally {
+      if (channel && channel !== open) {
+        channel.close();
+      }
+    }
+  }
+
+  private dispatch(event: PeerLeaseEvent): void {
+    const docListeners = this.listeners.get(event.docId);
+    if (!docListeners) {
+      return;
+    }
+
+    for (const listener of Array.from(docListeners)) {
+      safeInvoke(() => listener(event));
+    }
+  }
+
+  private openChannel(docId: string): BroadcastChannelLike | null {
+    const channel = this.createChannel(docId);
+    if (channel) {
+      unrefHandle(channel);
+      attachBroadcastListener(channel, (message) => {
+        const event = parseBroadcastEvent(message?.data);
+        if (event && event.docId === docId) {
+          this.dispatch(event);
+        }
+      });
+    }
+    return channel;
+  }
+
+  private createChannel(docId: string): BroadcastChannelLike | null {
+    return createBroadcastChannel(this.channelPrefix + encodeURIComponent(docId));
+  }
+}
+
+function parseBroadcastEvent(data: unknown): PeerLeaseEvent | null {
+  if (!data || typeof data !== "object") {
+    return null;
+  }
+
+  const message = data as { type?: unknown; event?: unknown };
+  if (message.type !== MESSAGE_TYPE || !message.event || typeof message.event !== "object") {
+    return null;
+  }
+
+  const event = message.event as Partial<PeerLeaseEvent>;
+  if (
+    typeof event.type !== "string" ||
+    !EVENT_TYPES.has(event.type) ||
+    typeof event.docId !== "string" ||
+    typeof event.at !== "number"
+  ) {
+    return null;
+  }
+
+  return event as PeerLeaseEvent;
+}
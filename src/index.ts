@@ -1,7 +1,81 @@
-export { acquirePeerId, PeerIdLease, resetPeerLeaseState } from "./peer-lease.js";
-export { tryReuseLoroPeerId } from "./loro.js";
-export type { LoroPeerIdReleaseHandle } from "./loro.js";
+export {
+  acquirePeerId,
+  acquirePeerIds,
+  createPeerLeaseManager,
+  inspectPeerLeaseState,
+  listPeerLeaseDocs,
+  resetPeerLeaseState,
+  subscribePeerLeaseEvents,
+  tryReuseLoroPeerId,
+  tryReuseLoroPeerIds,
+} from "./manager.js";
+export type { PeerLeaseManager } from "./manager.js";
+export {
+  DEFAULT_PEER_ID_CACHE_POLICY,
+  DEFAULT_PEER_LEASE_TIMINGS,
+  PeerIdLease,
+} from "./peer-lease.js";
+export type {
+  AcquirePeerIdOptions,
+  AcquirePeerIdRequest,
+  LegacyDocIdMapping,
+  MutexFactory,
+  PeerIdCandidate,
+  PeerIdCandidateOutcome,
+  PeerIdOrigin,
+  PeerLeaseActiveEntry,
+  PeerIdCachePolicy,
+  PeerIdScorer,
+  PeerIdSelectionStrategy,
+  PeerLeaseCachedEntry,
+  PeerLeaseManagerConfig,
+  PeerLeaseScope,
+  PeerLeaseScopeMatcher,
+  PeerLeaseStateSnapshot,
+  PeerLeaseTimings,
+  ReleasePeerIdOptions,
+} from "./peer-lease.js";
+export type {
+  PeerLeaseAcquiredEvent,
+  PeerLeaseBurnedEvent,
+  PeerLeaseEvent,
+  PeerLeaseEventListener,
+  PeerLeaseFallbackEvent,
+  PeerLeasePendingDrainedEvent,
+  PeerLeaseReleaseRejectedEvent,
+  PeerLeaseReleasedEvent,
+  PeerLeaseResetEvent,
+  PeerLeaseStaleReclaimedEvent,
+  PeerLeaseStateCorruptedEvent,
+} from "./events.js";
+export {
+  PeerLeaseAbortError,
+  PeerLeaseDoubleReleaseError,
+  PeerLeaseError,
+  PeerLeaseGeneratorError,
+  PeerLeaseQuotaError,
+  PeerLeaseStaleLeaseError,
+  PeerLeaseStorageError,
+  PeerLeaseTimeoutError,
+} from "./errors.js";
+export type { PeerLeaseErrorCode } from "./errors.js";
+export { UnsupportedSchemaError } from "./schema.js";
+export type {
+  LoroPeerIdCollision,
+  LoroPeerIdOptions,
+  LoroPeerIdPersistence,
+  LoroPeerIdReleaseHandle,
+  LoroVersionFormat,
+} from "./loro.js";
 export { attachPeerLeaseLifecycle } from "./lifecycle.js";
 export type { PeerLeaseLifecycleOptions } from "./lifecycle.js";
-export { createMutex } from "./lock.js";
-export type { AsyncMutex } from "./lock.js";
+export { MemoryStorage, createMutex, toAsyncStorage } from "./lock.js";
+export type {
+  AsyncMutex,
+  AsyncStorageLike,
+  CreateMutexConfig,
+  MutexRunOptions,
+  StorageLike,
+} from "./lock.js";
+export { IndexedDBStorage, detectIndexedDB } from "./indexeddb.js";
+export type { IDBFactoryLike, IndexedDBStorageOptions } from "./indexeddb.js";
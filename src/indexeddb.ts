@@ -0,0 +1,211 @@
+import { PeerLeaseStorageError } from "./errors.js";
+import type { AsyncStorageLike } from "./lock.js";
+
+interface IDBEventTargetLike {
+  addEventListener(type: string, listener: () => void): void;
+}
+
+interface IDBRequestLike<T> extends IDBEventTargetLike {
+  result: T;
+  error: unknown;
+}
+
+type IDBOpenRequestLike = IDBRequestLike<IDBDatabaseLike>;
+
+interface IDBObjectStoreLike {
+  get(key: string): IDBRequestLike<unknown>;
+  put(value: string, key: string): IDBRequestLike<unknown>;
+  delete(key: string): IDBRequestLike<unknown>;
+  getAllKeys(): IDBRequestLike<unknown[]>;
+}
+
+interface IDBTransactionLike extends IDBEventTargetLike {
+  objectStore(name: string): IDBObjectStoreLike;
+  error: unknown;
+}
+
+interface IDBDatabaseLike extends IDBEventTargetLike {
+  version: number;
+  objectStoreNames: { contains(name: string): boolean };
+  createObjectStore(name: string): unknown;
+  transaction(storeNames: string, mode: "readonly" | "readwrite"): IDBTransactionLike;
+  close(): void;
+}
+
+export interface IDBFactoryLike {
+  open(name: string, version?: number): IDBOpenRequestLike;
+}
+
+export interface IndexedDBStorageOptions {
+  /** Database name; defaults to `peer-lease`. */
+  databaseName?: string;
+  /**
+   * Object store holding the key/value pairs; defaults to `kv`. A store missing
+   * from an existing database is added by upgrading it to the next version.
+   */
+  storeName?: string;
+  /** IndexedDB factory to use instead of `globalThis.indexedDB`. */
+  factory?: IDBFactoryLike;
+}
+
+const DEFAULT_DATABASE_NAME = "peer-lease";
+const DEFAULT_STORE_NAME = "kv";
+
+/**
+ * Key/value storage backed by a single IndexedDB object store. Usable in
+ * windows, dedicated workers and service workers, where localStorage is not.
+ * The database connection is opened lazily and reopened if another context
+ * upgrades the schema.
+ */
+export class IndexedDBStorage implements AsyncStorageLike {
+  private readonly factory: IDBFactoryLike;
+  private readonly databaseName: string;
+  private readonly storeName: string;
+  private database?: Promise<IDBDatabaseLike>;
+
+  constructor(options: IndexedDBStorageOptions = {}) {
+    const factory = options.factory ?? detectIndexedDB();
+    if (!factory) {
+      throw new PeerLeaseStorageError("IndexedDBStorage requires an IndexedDB factory");
+    }
+
+    this.factory = factory;
+    this.databaseName = options.databaseName ?? DEFAULT_DATABASE_NAME;
+    this.storeName = options.storeName ?? DEFAULT_STORE_NAME;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.run("readonly", (store) => store.get(key));
+    return typeof value === "string" ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.run("readwrite", (store) => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.run("readwrite", (store) => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.run("readonly", (store) => store.getAllKeys());
+    return keys.filter((key): key is string => typeof key === "string");
+  }
+
+  /**
+   * Closes the underlying connection. Later calls transparently reopen it.
+   */
+  async close(): Promise<void> {
+    const pending = this.database;
+    this.database = undefined;
+    if (pending) {
+      try {
+        (await pending).close();
+      } catch {
+        // The open request already failed; nothing to close.
+      }
+    }
+  }
+
+  private async run<T>(
+    mode: "readonly" | "readwrite",
+    operation: (store: IDBObjectStoreLike) => IDBRequestLike<T>,
+  ): Promise<T> {
+    const database = await this.open();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+
+      // Resolve on commit rather than on request success so writes are durable
+      // before the caller releases its mutex.
+      transaction.addEventListener("complete", () => resolve(request.result));
+      transaction.addEventListener("error", () => reject(transaction.error ?? request.error));
+      transaction.addEventListener("abort", () => {
+        reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+      });
+    });
+  }
+
+  private open(): Promise<IDBDatabaseLike> {
+    if (!this.database) {
+      const opening = this.openDatabase().then((database) => {
+        database.addEventListener("versionchange", () => {
+          database.close();
+          if (this.database === opening) {
+            this.database = undefined;
+          }
+        });
+        return database;
+      });
+      opening.catch(() => {
+        if (this.database === opening) {
+          this.database = undefined;
+        }
+      });
+      this.database = opening;
+    }
+
+    return this.database;
+  }
+
+  /**
+   * Opens the database at its current version. A store that does not exist
+   * yet, e.g. a second `storeName` in an existing database, can only be
+   * created in an upgrade, so the database is then reopened at the next
+   * version.
+   */
+  private async openDatabase(version?: number): Promise<IDBDatabaseLike> {
+    let database: IDBDatabaseLike;
+    try {
+      database = await this.requestOpen(version);
+    } catch (error) {
+      // Another context upgraded past `version` first; look again.
+      if (version !== undefined && isVersionError(error)) {
+        return this.openDatabase();
+      }
+      throw error;
+    }
+
+    if (!database.objectStoreNames.contains(this.storeName)) {
+      database.close();
+      return this.openDatabase(database.version + 1);
+    }
+    return database;
+  }
+
+  private requestOpen(version: number | undefined): Promise<IDBDatabaseLike> {
+    return new Promise<IDBDatabaseLike>((resolve, reject) => {
+      const request = this.factory.open(this.databaseName, version);
+
+      request.addEventListener("upgradeneeded", () => {
+        const upgrading = request.result;
+        if (!upgrading.objectStoreNames.contains(this.storeName)) {
+          upgrading.createObjectStore(this.storeName);
+        }
+      });
+      request.addEventListener("success", () => resolve(request.result));
+      request.addEventListener("error", () => reject(request.error));
+    });
+  }
+}
+
+function isVersionError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { name?: unknown }).name === "VersionError"
+  );
+}
+
+export function detectIndexedDB(): IDBFactoryLike | null {
+  try {
+    const candidate = (globalThis as { indexedDB?: IDBFactoryLike }).indexedDB;
+    if (!candidate || typeof candidate.open !== "function") {
+      return null;
+    }
+    return candidate;
+  } catch {
+    return null;
+  }
+}
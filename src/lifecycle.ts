@@ -1,4 +1,5 @@
 import type { LoroDoc, Frontiers } from "loro-crdt";
+import { releaseOnPageHide } from "./loro.js";
 import type { LoroPeerIdReleaseHandle } from "./loro.js";
 
 interface LifecycleEventTarget {
@@ -139,7 +140,7 @@ function encodeFrontiersInput(frontiers: Frontiers | string): string {
 
 function invokeRelease(release: LoroPeerIdReleaseHandle, version: string): void {
   try {
-    const result = release(version);
+    const result = releaseOnPageHide(release, version);
     if (result && typeof (result as Promise<unknown>).catch === "function") {
       (result as Promise<unknown>).catch(() => {
         // Swallow errors in lifecycle handlers; callers can await release() elsewhere to observe failures.
@@ -1,7 +1,28 @@
+import {
+  PeerLeaseAbortError,
+  PeerLeaseTimeoutError,
+  isQuotaExceededError,
+  throwIfAborted,
+  toQuotaError,
+} from "./errors.js";
+
 export interface StorageLike {
   getItem(key: string): string | null;
   setItem(key: string, value: string): void;
   removeItem(key: string): void;
+  /** Lists every stored key; optional, only needed to enumerate documents. */
+  keys?(): string[];
+}
+
+/**
+ * Asynchronous counterpart of {@link StorageLike} for backends such as
+ * IndexedDB that cannot answer synchronously.
+ */
+export interface AsyncStorageLike {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys?(): Promise<string[]>;
 }
 
 export interface MutexOptions {
@@ -12,8 +33,19 @@ export interface MutexOptions {
   heartbeatIntervalFraction?: number;
 }
 
+/** Per-call overrides for {@link AsyncMutex.runExclusive}. */
+export interface MutexRunOptions {
+  /** Aborts the wait for the mutex; ignored once the callback has started. */
+  signal?: AbortSignal;
+  /**
+   * Replaces the mutex's configured acquire timeout for this call. `0` makes a
+   * single attempt and times out if the mutex is held.
+   */
+  timeoutMs?: number;
+}
+
 export interface AsyncMutex {
-  runExclusive<T>(callback: () => T | Promise<T>): Promise<T>;
+  runExclusive<T>(callback: () => T | Promise<T>, options?: MutexRunOptions): Promise<T>;
 }
 
 export interface CreateMutexConfig {
@@ -25,7 +57,7 @@ export interface CreateMutexConfig {
   options: MutexOptions;
 }
 
-type LockGrantedCallback<T> = (lock: LockSnapshot | undefined) => T | Promise<T>;
+type LockGrantedCallback<T> = (lock: LockSnapshot | null | undefined) => T | Promise<T>;
 
 interface LockSnapshot {
   name: string;
@@ -39,16 +71,31 @@ interface LockManagerRequestOptionsLike {
   signal?: AbortSignal;
 }
 
-interface LockManagerLike {
+interface LockManagerSnapshotLike {
+  held?: Array<Partial<LockSnapshot>>;
+  pending?: Array<Partial<LockSnapshot>>;
+}
+
+export interface LockManagerLike {
   request<T>(name: string, callback: LockGrantedCallback<T>): Promise<T>;
   request<T>(name: string, options: LockManagerRequestOptionsLike, callback: LockGrantedCallback<T>): Promise<T>;
+  query?(): Promise<LockManagerSnapshotLike>;
+}
+
+/**
+ * An exclusive Web Lock kept for an open-ended period. The browser frees it
+ * automatically when the holding context is destroyed, even after a crash.
+ */
+export interface HeldWebLock {
+  readonly name: string;
+  release(): void;
 }
 
 interface NavigatorWithLocks {
   locks?: LockManagerLike;
 }
 
-interface BroadcastChannelMessageEventLike {
+export interface BroadcastChannelMessageEventLike {
   data: unknown;
 }
 
@@ -58,6 +105,7 @@ export interface BroadcastChannelLike {
   addEventListener?(type: "message", listener: (event: BroadcastChannelMessageEventLike) => void): void;
   removeEventListener?(type: "message", listener: (event: BroadcastChannelMessageEventLike) => void): void;
   onmessage?: (event: BroadcastChannelMessageEventLike) => void;
+  unref?(): void;
 }
 
 interface StorageEventLike {
@@ -82,17 +130,30 @@ export class WebLocksMutex implements AsyncMutex {
     this.timeoutMs = timeoutMs;
   }
 
-  async runExclusive<T>(callback: () => T | Promise<T>): Promise<T> {
+  async runExclusive<T>(callback: () => T | Promise<T>, options: MutexRunOptions = {}): Promise<T> {
+    const { signal } = options;
+    throwIfAborted(signal);
+
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    if (timeoutMs <= 0) {
+      return this.runIfAvailable(callback);
+    }
+
     const AbortCtrl = typeof AbortController === "function" ? AbortController : undefined;
     const controller = AbortCtrl ? new AbortCtrl() : undefined;
     let timer: ReturnType<typeof setTimeout> | undefined;
+    let timedOut = false;
 
-    if (controller && Number.isFinite(this.timeoutMs) && this.timeoutMs > 0) {
+    if (controller && Number.isFinite(timeoutMs)) {
       timer = setTimeout(() => {
+        timedOut = true;
         controller.abort();
-      }, this.timeoutMs);
+      }, timeoutMs);
     }
 
+    const onAbort = () => controller?.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
     try {
       if (controller) {
         return await this.locks.request(
@@ -105,15 +166,38 @@ export class WebLocksMutex implements AsyncMutex {
       return await this.locks.request(this.name, { mode: "exclusive" }, async () => callback());
     } catch (error) {
       if (controller && isAbortError(error)) {
-        throw new Error("Timed out acquiring the peer lease mutex via Web Locks", { cause: error });
+        if (!timedOut && signal?.aborted) {
+          throw new PeerLeaseAbortError(undefined, { cause: signal.reason });
+        }
+        throw new PeerLeaseTimeoutError("Timed out acquiring the peer lease mutex via Web Locks", {
+          cause: error
+        });
       }
       throw error;
     } finally {
+      signal?.removeEventListener("abort", onAbort);
       if (timer !== undefined) {
         clearTimeout(timer);
       }
     }
   }
+
+  /** A zero timeout makes a single attempt instead of queueing for the lock. */
+  private async runIfAvailable<T>(callback: () => T | Promise<T>): Promise<T> {
+    let granted = false;
+    const result = await this.locks.request(this.name, { mode: "exclusive", ifAvailable: true }, async (lock) => {
+      if (!lock) {
+        return undefined;
+      }
+      granted = true;
+      return callback();
+    });
+
+    if (!granted) {
+      throw new PeerLeaseTimeoutError("Timed out acquiring the peer lease mutex via Web Locks");
+    }
+    return result as T;
+  }
 }
 
 export class LocalStorageMutex implements AsyncMutex {
@@ -141,12 +225,15 @@ export class LocalStorageMutex implements AsyncMutex {
     this.attachListeners();
   }
 
-  async runExclusive<T>(callback: () => T | Promise<T>): Promise<T> {
+  async runExclusive<T>(callback: () => T | Promise<T>, options: MutexRunOptions = {}): Promise<T> {
+    const { signal } = options;
     const token = randomToken();
-    const deadline = Date.now() + this.options.acquireTimeoutMs;
+    const deadline = Date.now() + (options.timeoutMs ?? this.options.acquireTimeoutMs);
 
     while (true) {
-      if (this.tryAcquire(token)) {
+      throwIfAborted(signal);
+
+      if (this.tryAcquireOrThrow(token)) {
         this.startHeartbeat(token);
 
         try {
@@ -158,10 +245,22 @@ export class LocalStorageMutex implements AsyncMutex {
       }
 
       if (Date.now() >= deadline) {
-        throw new Error("Timed out acquiring the peer lease mutex");
+        throw new PeerLeaseTimeoutError();
       }
 
-      await this.waitBeforeRetry(deadline);
+      await this.waitBeforeRetry(deadline, signal);
+    }
+  }
+
+  /** Reports a full storage as a typed error rather than a bare DOMException. */
+  private tryAcquireOrThrow(token: string): boolean {
+    try {
+      return this.tryAcquire(token);
+    } catch (error) {
+      if (isQuotaExceededError(error)) {
+        throw toQuotaError(error);
+      }
+      throw error;
     }
   }
 
@@ -272,7 +371,7 @@ export class LocalStorageMutex implements AsyncMutex {
     return next;
   }
 
-  private async waitBeforeRetry(deadline: number): Promise<void> {
+  private async waitBeforeRetry(deadline: number, signal?: AbortSignal): Promise<void> {
     const baseDelay = this.options.retryDelayMs;
     const jitter = Math.floor(Math.random() * this.options.retryJitterMs);
     const waitMs = Math.min(baseDelay + jitter, Math.max(0, deadline - Date.now()));
@@ -295,9 +394,12 @@ export class LocalStorageMutex implements AsyncMutex {
       const cleanup = () => {
         clearTimeout(timeout);
         this.waiters.delete(wake);
+        signal?.removeEventListener("abort", wake);
       };
 
       this.waiters.add(wake);
+      // The caller re-checks the signal as soon as the wait ends.
+      signal?.addEventListener("abort", wake, { once: true });
     });
   }
 
@@ -379,6 +481,32 @@ export class MemoryStorage implements StorageLike {
   removeItem(key: string): void {
     this.store.delete(key);
   }
+
+  keys(): string[] {
+    return Array.from(this.store.keys());
+  }
+}
+
+/**
+ * Adapts a synchronous storage to the asynchronous contract. Writes still hit
+ * the underlying storage before the returned promise is created.
+ */
+export function toAsyncStorage(storage: StorageLike): AsyncStorageLike {
+  const adapted: AsyncStorageLike = {
+    getItem: async (key) => storage.getItem(key),
+    setItem: async (key, value) => {
+      storage.setItem(key, value);
+    },
+    removeItem: async (key) => {
+      storage.removeItem(key);
+    }
+  };
+
+  if (typeof storage.keys === "function") {
+    adapted.keys = async () => storage.keys!();
+  }
+
+  return adapted;
 }
 
 export function createLeaseStorage(): StorageLike {
@@ -402,10 +530,22 @@ export function detectLocalStorage(): StorageLike | null {
     candidate.setItem(testKey, "ok");
     candidate.removeItem(testKey);
 
+    const webStorage = candidate as Partial<Pick<Storage, "key" | "length">>;
     return {
       getItem: candidate.getItem.bind(candidate),
       setItem: candidate.setItem.bind(candidate),
-      removeItem: candidate.removeItem.bind(candidate)
+      removeItem: candidate.removeItem.bind(candidate),
+      keys: () => {
+        const keys: string[] = [];
+        const length = webStorage.length ?? 0;
+        for (let index = 0; index < length; index++) {
+          const key = webStorage.key?.(index);
+          if (typeof key === "string") {
+            keys.push(key);
+          }
+        }
+        return keys;
+      }
     };
   } catch {
     return null;
@@ -431,7 +571,51 @@ export function createMutex(config: CreateMutexConfig): AsyncMutex {
   });
 }
 
-function getNavigatorLocks(): LockManagerLike | null {
+/**
+ * Takes an exclusive Web Lock without waiting and keeps it until `release()`
+ * is called. Resolves `null` when another context already holds the lock.
+ */
+export function holdWebLock(locks: LockManagerLike, name: string): Promise<HeldWebLock | null> {
+  return new Promise((resolve, reject) => {
+    let release!: () => void;
+    const released = new Promise<void>((resolveRelease) => {
+      release = resolveRelease;
+    });
+
+    locks
+      .request(name, { mode: "exclusive", ifAvailable: true }, (lock) => {
+        if (!lock) {
+          resolve(null);
+          return undefined;
+        }
+
+        resolve({ name, release });
+        return released;
+      })
+      .catch(reject);
+  });
+}
+
+/**
+ * Lists the names of Web Locks currently held anywhere in the origin, or
+ * `null` when the lock manager cannot be queried.
+ */
+export async function queryHeldWebLocks(locks: LockManagerLike): Promise<Set<string> | null> {
+  if (typeof locks.query !== "function") {
+    return null;
+  }
+
+  const snapshot = await locks.query();
+  const names = new Set<string>();
+  for (const info of snapshot?.held ?? []) {
+    if (typeof info?.name === "string") {
+      names.add(info.name);
+    }
+  }
+  return names;
+}
+
+export function getNavigatorLocks(): LockManagerLike | null {
   try {
     const navigatorCandidate = (globalThis as { navigator?: NavigatorWithLocks }).navigator;
     const locks = navigatorCandidate?.locks;
@@ -446,7 +630,7 @@ function getNavigatorLocks(): LockManagerLike | null {
   }
 }
 
-function createBroadcastChannel(name: string): BroadcastChannelLike | null {
+export function createBroadcastChannel(name: string): BroadcastChannelLike | null {
   try {
     const globalCandidate = globalThis as unknown as { BroadcastChannel?: unknown };
     const BC = globalCandidate.BroadcastChannel as undefined | (new (name: string) => BroadcastChannelLike);
@@ -459,7 +643,7 @@ function createBroadcastChannel(name: string): BroadcastChannelLike | null {
   }
 }
 
-function attachBroadcastListener(channel: BroadcastChannelLike, handler: (event: BroadcastChannelMessageEventLike) => void): void {
+export function attachBroadcastListener(channel: BroadcastChannelLike, handler: (event: BroadcastChannelMessageEventLike) => void): void {
   if (typeof channel.addEventListener === "function") {
     channel.addEventListener("message", handler);
     return;
@@ -469,6 +653,27 @@ function attachBroadcastListener(channel: BroadcastChannelLike, handler: (event:
   channel.onmessage = handler;
 }
 
+/**
+ * Lets Node exit while a timer or channel is pending. Heartbeats, throttled
+ * checkpoints and event channels are background work; none of it should keep
+ * a process alive on its own.
+ */
+export function unrefHandle(handle: unknown): void {
+  (handle as { unref?: () => void } | undefined)?.unref?.();
+}
+
+/**
+ * Calls a user-supplied hook, listener or callback and swallows what it
+ * throws: a faulty callback must never break lease bookkeeping around it.
+ */
+export function safeInvoke(callback: () => void): void {
+  try {
+    callback();
+  } catch {
+    // Deliberately ignored.
+  }
+}
+
 function randomToken(): string {
   return `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}-${cryptoCounter++}`;
 }
@@ -1,5 +1,16 @@
 import type { LoroDoc, Frontiers, PeerID } from "loro-crdt";
-import { acquirePeerId, PeerIdLease } from "./peer-lease.js";
+import type {
+  AcquirePeerIdFn,
+  AcquirePeerIdOptions,
+  AcquirePeerIdRequest,
+  AcquirePeerIdsFn,
+  PeerIdCandidate,
+  PeerIdLease,
+  PeerIdOrigin,
+  PeerIdScorer,
+  ReleasePeerIdOptions,
+} from "./peer-lease.js";
+import { safeInvoke, unrefHandle } from "./lock.js";
 
 /**
  * Try to reuse a previous cached peer id for the given loro doc. This method may or may not assign a new PeerId.
@@ -12,17 +23,285 @@ import { acquirePeerId, PeerIdLease } from "./peer-lease.js";
  * @param docId
  * @param doc
  * @returns releaseFn: a function that releases the peer id lease.
- * After releasing, doc will be assigned a new random peer id to avoid conflicts
+ * After releasing, doc will be assigned a new random peer id to avoid conflicts.
+ * Calling it again reuses the first release and its frontiers, so a release
+ * already issued during `pagehide` never raises `PeerLeaseDoubleReleaseError`.
+ *
+ * `rotate` switches the open doc to another (possibly cached) peer ID: the new
+ * lease is acquired before the current one is released at `frontiers`, so the
+ * doc is never without a lease and the handle stays valid.
+ *
+ * Call `checkpoint` right after persisting the doc: should this session
+ * crash, the expired lease is cached at those frontiers instead of dropped.
+ *
+ * Callers opening the same doc instance under the same docId share one lease
+ * (acquired with the first caller's options); it is released with the last
+ * of their handles, or as soon as `attachPeerLeaseLifecycle` sees the page
+ * hide through any of them.
+ *
+ * `origin` and `candidates` describe how the current lease was acquired (see
+ * `PeerIdLease`); a rotation that could not acquire a lease reports `fallback`.
+ * Like `PeerIdLease.release`, releasing accepts `options.scope` to replace the
+ * scope the ID is cached with; a shared lease takes it from the release that
+ * ends the lease.
  */
-export type LoroPeerIdReleaseHandle = ((frontiers?: Frontiers | string) => Promise<void>) & {
-  release: (frontiers?: Frontiers | string) => Promise<void>;
+export type LoroPeerIdReleaseHandle = ((
+  frontiers?: Frontiers | string,
+  options?: ReleasePeerIdOptions,
+) => Promise<void>) & {
+  release: (frontiers?: Frontiers | string, options?: ReleasePeerIdOptions) => Promise<void>;
+  rotate: (frontiers?: Frontiers | string) => Promise<PeerID>;
+  checkpoint: (frontiers?: Frontiers | string) => Promise<void>;
   isReleased: () => boolean;
   value: PeerID;
+  origin: PeerIdOrigin;
+  candidates: readonly PeerIdCandidate[];
 };
 
-export async function tryReuseLoroPeerId(
+/**
+ * How a Loro document's version is recorded with its lease.
+ *
+ * - `frontiers` (default) stores `doc.frontiers()` and compares with
+ *   `doc.cmpFrontiers`, which cannot order frontiers that reference ops the
+ *   doc lacks, e.g. after loading a shallow snapshot or a partial import.
+ * - `version-vector` stores `doc.oplogVersion()` and reuses a cached peer ID
+ *   once the doc contains every op that peer authored, which needs no op
+ *   lookup at all.
+ */
+export type LoroVersionFormat = "frontiers" | "version-vector";
+
+/** Reported when an import revealed that another peer shares our peer ID. */
+export interface LoroPeerIdCollision {
+  docId: string;
+  /** The collided ID, now burned in the lease state. */
+  previousPeerId: PeerID;
+  /** The fresh ID the doc switched to. */
+  peerId: PeerID;
+}
+
+/**
+ * Reports durable saves of the doc so the lease is checkpointed (see
+ * `PeerIdLease.checkpoint`) without calling `release.checkpoint()` by hand.
+ */
+export interface LoroPeerIdPersistence {
+  /**
+   * Registers `onPersisted`, to be called once the doc `docId` is durably
+   * stored up to `frontiers` (its current version if omitted). Called once
+   * per document, so one hook can serve a `tryReuseLoroPeerIds` batch.
+   * Returns an unsubscribe function, called when the handle is released.
+   */
+  subscribe: (onPersisted: (frontiers?: Frontiers | string) => void, docId: string) => () => void;
+  /** Minimum time between two checkpoint writes. Defaults to 1 second. */
+  throttleMs?: number;
+}
+
+/** Per-call options for `tryReuseLoroPeerId` and `tryReuseLoroPeerIds`. */
+export interface LoroPeerIdOptions extends AcquirePeerIdOptions {
+  versionFormat?: LoroVersionFormat;
+  /**
+   * Watches imports for ops under the leased peer ID that this session did
+   * not author, e.g. after storage was wiped or a backup restored. On such a
+   * collision the doc switches to a fresh peer ID at once, the old ID is
+   * burned in the lease state and `onPeerIdCollision` is called.
+   */
+  detectCollisions?: boolean;
+  onPeerIdCollision?: (collision: LoroPeerIdCollision) => void;
+  persistence?: LoroPeerIdPersistence;
+}
+
+type AcquireOneFn = (
+  request: AcquirePeerIdRequest,
+  options?: AcquirePeerIdOptions,
+) => Promise<PeerIdLease>;
+
+interface ReleaseHandleConfig {
+  docId: string;
+  format: LoroVersionFormat;
+  /** Acquires the lease of the ID a rotation switches to. */
+  acquire: AcquireOneFn;
+  detectCollisions: boolean;
+  onPeerIdCollision?: (collision: LoroPeerIdCollision) => void;
+  persistence?: LoroPeerIdPersistence;
+  /** Scope options every acquire of the handle, including rotations, uses. */
+  reuse: Pick<AcquirePeerIdOptions, "scope" | "matchScope">;
+}
+
+const VERSION_VECTOR_PREFIX = "vv:";
+const DEFAULT_CHECKPOINT_THROTTLE_MS = 1_000;
+// A rotated-to ID must be fresh: a cached one may have collided as well.
+const NEVER_REUSE: PeerIdScorer = () => undefined;
+
+interface SharedLease {
+  handle: Promise<LoroPeerIdReleaseHandle>;
+  /** Handles given out, including those still waiting for `handle`. */
+  refs: number;
+  /** The release of the lease, once the last handle or a page teardown ended it. */
+  released?: Promise<void>;
+  /** Settles with `released`; until then the entry blocks a new lease for the doc. */
+  closing?: Promise<void>;
+}
+
+type ReleaseFn = (frontiers?: Frontiers | string, options?: ReleasePeerIdOptions) => Promise<void>;
+
+/** How each shared handle releases the whole lease when the page goes away. */
+const pageHideReleases = new WeakMap<LoroPeerIdReleaseHandle, ReleaseFn>();
+
+/**
+ * Releases `release` from a `pagehide` handler. A handle that shares its
+ * lease releases the shared lease at once, even while other handles remain,
+ * because they all go away with the page.
+ */
+export function releaseOnPageHide(
+  release: LoroPeerIdReleaseHandle,
+  frontiers?: Frontiers | string,
+): Promise<void> {
+  return (pageHideReleases.get(release) ?? release)(frontiers);
+}
+
+/**
+ * Shares one lease among all callers in this context that open the same doc
+ * instance under the same docId, so a second caller does not acquire another
+ * lease and clobber the doc's peer ID. Every caller gets its own handle; the
+ * lease is released together with the last of them.
+ */
+export class LoroLeaseRegistry {
+  private readonly leases = new WeakMap<LoroDoc, Map<string, SharedLease>>();
+
+  has(docId: string, doc: LoroDoc): boolean {
+    return this.leases.get(doc)?.has(docId) ?? false;
+  }
+
+  /** Resolves once no release of the shared lease of `doc` is in flight. */
+  async settle(docId: string, doc: LoroDoc): Promise<void> {
+    let closing = this.leases.get(doc)?.get(docId)?.closing;
+    while (closing) {
+      await closing;
+      closing = this.leases.get(doc)?.get(docId)?.closing;
+    }
+  }
+
+  /** Joins the shared lease of `doc`, calling `open` if there is none yet. */
+  async share(
+    docId: string,
+    doc: LoroDoc,
+    open: () => Promise<LoroPeerIdReleaseHandle>,
+  ): Promise<LoroPeerIdReleaseHandle> {
+    // A lease still being released (e.g. after an in-flight rotation) would
+    // reassign the doc's peer ID once done, so open a new one only after that.
+    if (this.leases.get(doc)?.get(docId)?.closing) {
+      await this.settle(docId, doc);
+    }
+
+    let byDocId = this.leases.get(doc);
+    if (!byDocId) {
+      byDocId = new Map();
+      this.leases.set(doc, byDocId);
+    }
+
+    let shared = byDocId.get(docId);
+    if (!shared) {
+      const created: SharedLease = { handle: open(), refs: 0 };
+      created.handle.catch(() => this.forget(docId, doc, created));
+      byDocId.set(docId, created);
+      shared = created;
+    }
+
+    shared.refs += 1;
+    let inner: LoroPeerIdReleaseHandle;
+    try {
+      inner = await shared.handle;
+    } catch (error) {
+      shared.refs -= 1;
+      throw error;
+    }
+    return this.createRef(docId, doc, shared, inner);
+  }
+
+  private forget(docId: string, doc: LoroDoc, shared: SharedLease): void {
+    const byDocId = this.leases.get(doc);
+    if (byDocId?.get(docId) === shared) {
+      byDocId.delete(docId);
+      if (byDocId.size === 0) {
+        this.leases.delete(doc);
+      }
+    }
+  }
+
+  /** Releases the shared lease, keeping its entry until the release settled. */
+  private close(
+    docId: string,
+    doc: LoroDoc,
+    shared: SharedLease,
+    inner: LoroPeerIdReleaseHandle,
+    frontiers?: Frontiers | string,
+    options?: ReleasePeerIdOptions,
+  ): Promise<void> {
+    if (!shared.released) {
+      const released = inner.release(frontiers, options);
+      const forget = () => this.forget(docId, doc, shared);
+      shared.released = released;
+      shared.closing = released.then(forget, forget);
+    }
+    return shared.released;
+  }
+
+  private createRef(
+    docId: string,
+    doc: LoroDoc,
+    shared: SharedLease,
+    inner: LoroPeerIdReleaseHandle,
+  ): LoroPeerIdReleaseHandle {
+    let releaseTask: Promise<void> | undefined;
+    const isReleased = () => releaseTask !== undefined || shared.released !== undefined;
+
+    const releaseRef: ReleaseFn = (frontiers, options) => {
+      if (!releaseTask) {
+        shared.refs -= 1;
+        releaseTask =
+          shared.refs > 0 && !shared.released
+            ? Promise.resolve()
+            : this.close(docId, doc, shared, inner, frontiers, options);
+      }
+      return releaseTask;
+    };
+
+    const handle = (async (frontiers?: Frontiers | string, options?: ReleasePeerIdOptions) => {
+      await releaseRef(frontiers, options);
+    }) as LoroPeerIdReleaseHandle;
+
+    handle.release = releaseRef;
+    handle.rotate = (frontiers) =>
+      isReleased()
+        ? Promise.reject(new TypeError("rotate cannot be called after the handle was released"))
+        : inner.rotate(frontiers);
+    handle.checkpoint = (frontiers) => (isReleased() ? Promise.resolve() : inner.checkpoint(frontiers));
+    handle.isReleased = isReleased;
+    // Rotations and collisions change the shared ID for every handle.
+    for (const key of ["value", "origin", "candidates"] as const) {
+      Object.defineProperty(handle, key, { get: () => inner[key], enumerable: true });
+    }
+
+    pageHideReleases.set(handle, (frontiers) => {
+      if (!releaseTask) {
+        shared.refs -= 1;
+        releaseTask = this.close(docId, doc, shared, inner, frontiers);
+      }
+      return releaseTask;
+    });
+    return handle;
+  }
+}
+
+/**
+ * Implements `tryReuseLoroPeerId` on top of the supplied acquire function so
+ * every peer lease manager can expose a Loro binding scoped to its own state.
+ */
+export async function reuseLoroPeerId(
+  acquirePeerId: AcquirePeerIdFn,
+  registry: LoroLeaseRegistry,
   docId: string,
   doc: LoroDoc,
+  options?: LoroPeerIdOptions,
 ): Promise<LoroPeerIdReleaseHandle> {
   if (!isNonEmptyString(docId)) {
     throw new TypeError("tryReuseLoroPeerId expects a non-empty docId string");
@@ -32,14 +311,156 @@ export async function tryReuseLoroPeerId(
     throw new TypeError("tryReuseLoroPeerId expects a LoroDoc instance");
   }
 
-  const initialFrontiers = doc.frontiers();
-  const initialVersion = encodeFrontiers(initialFrontiers);
+  const { loroOptions, acquireOptions } = splitOptions(options, "tryReuseLoroPeerId");
+  const acquire: AcquireOneFn = (request, requestOptions) =>
+    acquirePeerId(
+      request.docId,
+      request.genFn,
+      request.version,
+      request.cmpVersion,
+      requestOptions,
+    );
+
+  return registry.share(docId, doc, async () => {
+    const lease = await acquire(createLoroRequest(docId, doc, loroOptions.format), acquireOptions);
+    doc.setPeerId(lease.value as PeerID);
+    return createReleaseHandle(doc, lease, { docId, acquire, ...loroOptions });
+  });
+}
+
+/**
+ * Implements `tryReuseLoroPeerIds`: acquires the leases of every document in
+ * one batch and assigns the peer IDs only once all of them succeeded, so a
+ * failed batch leaves every document untouched. Documents that already hold
+ * a shared lease join it instead; if the batch fails, they leave it again.
+ */
+export async function reuseLoroPeerIds(
+  acquirePeerIds: AcquirePeerIdsFn,
+  registry: LoroLeaseRegistry,
+  docs: ReadonlyArray<readonly [docId: string, doc: LoroDoc]>,
+  options?: LoroPeerIdOptions,
+): Promise<LoroPeerIdReleaseHandle[]> {
+  if (!Array.isArray(docs)) {
+    throw new TypeError("tryReuseLoroPeerIds expects an array of [docId, doc] pairs");
+  }
+
+  const seen = new Set<LoroDoc>();
+  for (const entry of docs) {
+    if (!Array.isArray(entry) || !isNonEmptyString(entry[0])) {
+      throw new TypeError("tryReuseLoroPeerIds expects a non-empty docId string");
+    }
+    if (!entry[1] || typeof entry[1] !== "object") {
+      throw new TypeError("tryReuseLoroPeerIds expects a LoroDoc instance");
+    }
+    if (seen.has(entry[1])) {
+      throw new TypeError("tryReuseLoroPeerIds expects each LoroDoc at most once");
+    }
+    seen.add(entry[1]);
+  }
+
+  const { loroOptions, acquireOptions } = splitOptions(options, "tryReuseLoroPeerIds");
+  const acquire: AcquireOneFn = async (request, requestOptions) =>
+    (await acquirePeerIds([request], requestOptions))[0];
+  await Promise.all(docs.map(([docId, doc]) => registry.settle(docId, doc)));
+  const missing = docs.filter(([docId, doc]) => !registry.has(docId, doc));
+  const opened =
+    missing.length === 0
+      ? Promise.resolve([])
+      : acquirePeerIds(
+          missing.map(([docId, doc]) => createLoroRequest(docId, doc, loroOptions.format)),
+          acquireOptions,
+        ).then((leases) =>
+          leases.map((lease, index) => {
+            const [docId, doc] = missing[index];
+            doc.setPeerId(lease.value as PeerID);
+            return createReleaseHandle(doc, lease, { docId, acquire, ...loroOptions });
+          }),
+        );
+
+  const missingIndex = new Map(missing.map(([, doc], index) => [doc, index]));
+  const results = await Promise.allSettled(
+    docs.map(([docId, doc]) =>
+      registry.share(docId, doc, async () => (await opened)[missingIndex.get(doc)!]),
+    ),
+  );
+
+  const failure = results.find((result) => result.status === "rejected");
+  if (failure) {
+    await Promise.allSettled(
+      results.map((result) => (result.status === "fulfilled" ? result.value.release() : undefined)),
+    );
+    throw failure.reason;
+  }
+
+  return results.map((result) => (result as PromiseFulfilledResult<LoroPeerIdReleaseHandle>).value);
+}
+
+/** Separates the Loro-specific options from those passed on to the acquire. */
+function splitOptions(
+  options: LoroPeerIdOptions | undefined,
+  caller: string,
+): {
+  loroOptions: Omit<ReleaseHandleConfig, "docId" | "acquire">;
+  acquireOptions: AcquirePeerIdOptions;
+} {
+  const {
+    versionFormat = "frontiers",
+    detectCollisions = false,
+    onPeerIdCollision,
+    persistence,
+    ...acquireOptions
+  } = options ?? {};
+  const { scope, matchScope } = acquireOptions;
+
+  if (versionFormat !== "frontiers" && versionFormat !== "version-vector") {
+    throw new TypeError(`${caller} expects options.versionFormat to be "frontiers" or "version-vector"`);
+  }
+
+  if (onPeerIdCollision !== undefined && typeof onPeerIdCollision !== "function") {
+    throw new TypeError(`${caller} expects options.onPeerIdCollision to be a function`);
+  }
+
+  if (persistence !== undefined) {
+    if (!persistence || typeof persistence.subscribe !== "function") {
+      throw new TypeError(`${caller} expects options.persistence.subscribe to be a function`);
+    }
+    const { throttleMs } = persistence;
+    if (throttleMs !== undefined && !(Number.isFinite(throttleMs) && throttleMs >= 0)) {
+      throw new TypeError(`${caller} expects options.persistence.throttleMs to be a non-negative number`);
+    }
+  }
+
+  return {
+    loroOptions: {
+      format: versionFormat,
+      detectCollisions,
+      onPeerIdCollision,
+      persistence,
+      reuse: { scope, matchScope },
+    },
+    acquireOptions,
+  };
+}
 
-  const lease = await acquirePeerId(
+function createLoroRequest(
+  docId: string,
+  doc: LoroDoc,
+  format: LoroVersionFormat,
+): AcquirePeerIdRequest {
+  if (format === "version-vector") {
+    return {
+      docId,
+      genFn: () => doc.peerIdStr,
+      version: encodeOplogVersion(doc),
+      cmpVersion: (left, right, peerId) => compareVersionVectors(doc, left, right, peerId),
+    };
+  }
+
+  return {
     docId,
-    () => doc.peerIdStr,
-    initialVersion,
-    (left, right) => {
+    genFn: () => doc.peerIdStr,
+    version: encodeFrontiers(doc.frontiers()),
+    cmpVersion: (left, right) => {
       if (typeof doc.cmpFrontiers !== "function") {
         return undefined;
       }
@@ -50,15 +471,21 @@ export async function tryReuseLoroPeerId(
         return undefined;
       }
     },
-  );
-
-  doc.setPeerId(lease.value as PeerID);
-
-  return createReleaseHandle(doc, lease);
+  };
 }
 
-function createReleaseHandle(doc: LoroDoc, lease: PeerIdLease): LoroPeerIdReleaseHandle {
+function createReleaseHandle(
+  doc: LoroDoc,
+  initialLease: PeerIdLease,
+  config: ReleaseHandleConfig,
+): LoroPeerIdReleaseHandle {
+  let lease: PeerIdLease | null = initialLease;
   let reassigned = false;
+  let releasedVersion: string | undefined;
+  let releasedOptions: ReleasePeerIdOptions | undefined;
+  let rotation: Promise<void> | undefined;
+  // Highest counter of the current peer ID that this session accounts for.
+  let authored = readPeerCounter(doc, doc.peerIdStr);
 
   const finalizeDocPeer = (): void => {
     if (!reassigned) {
@@ -67,23 +494,232 @@ function createReleaseHandle(doc: LoroDoc, lease: PeerIdLease): LoroPeerIdReleas
     }
   };
 
-  const releaseAsync = (frontiers?: Frontiers | string): Promise<void> => {
+  const describeLease = (current: PeerIdLease): void => {
+    handle.origin = current.origin;
+    handle.candidates = current.candidates;
+  };
+
+  // Serializes rotations; a release waits for the one in flight.
+  const track = (task: Promise<void>): Promise<void> => {
+    const settled = task.then(
+      () => undefined,
+      () => undefined,
+    );
+    rotation = settled;
+    void settled.then(() => {
+      if (rotation === settled) {
+        rotation = undefined;
+      }
+    });
+    return task;
+  };
+
+  const rotateAfterCollision = async (): Promise<void> => {
+    const previous = lease;
+    const previousPeerId = doc.peerIdStr;
+    const fresh = randomU64();
+    // Stop authoring under the collided ID before anything else can run.
+    doc.setPeerId(fresh);
+    authored = readPeerCounter(doc, fresh);
+    lease = null;
+
+    const request = createLoroRequest(config.docId, doc, config.format);
+    const [, next] = await Promise.allSettled([
+      previous?.burn(),
+      config.acquire({ ...request, genFn: () => fresh }, { ...config.reuse, selection: NEVER_REUSE }),
+    ]);
+    // Without a lease the doc keeps the random ID; it is just never cached.
+    if (next.status === "fulfilled") {
+      lease = next.value;
+      doc.setPeerId(lease.value as PeerID);
+      describeLease(lease);
+    } else {
+      handle.origin = "fallback";
+      handle.candidates = [];
+    }
+    handle.value = doc.peerIdStr;
+
+    safeInvoke(() => config.onPeerIdCollision?.({ docId: config.docId, previousPeerId, peerId: handle.value }));
+  };
+
+  const rotateLease = async (frontiers?: Frontiers | string): Promise<void> => {
+    if (reassigned) {
+      throw new TypeError("rotate cannot be called after the handle was released");
+    }
+
+    const previous = lease;
+    const version = encodeVersionInput(doc, config.format, frontiers);
+    // The current ID is still active, so it cannot be handed straight back.
+    const request = createLoroRequest(config.docId, doc, config.format);
+    const next = await config.acquire({ ...request, genFn: randomU64 }, config.reuse);
+
+    lease = next;
+    doc.setPeerId(next.value as PeerID);
+    authored = readPeerCounter(doc, doc.peerIdStr);
+    handle.value = doc.peerIdStr;
+    describeLease(next);
+    await previous?.release(version);
+  };
+
+  let unsubscribe = config.detectCollisions
+    ? doc.subscribe((batch) => {
+        if (reassigned) {
+          return;
+        }
+
+        const counter = readPeerCounter(doc, doc.peerIdStr);
+        if (batch.by === "import" && counter > authored) {
+          if (!rotation) {
+            void track(rotateAfterCollision());
+          }
+        } else if (batch.by === "local") {
+          authored = counter;
+        }
+      })
+    : undefined;
+
+  const releaseAsync: ReleaseFn = (frontiers, options) => {
+    if (rotation) {
+      return rotation.then(() => releaseAsync(frontiers, options));
+    }
+
+    unsubscribe?.();
+    unsubscribe = undefined;
+    stopPersistence?.();
+    stopPersistence = undefined;
     finalizeDocPeer();
-    const version = encodeFrontiersInput(doc, frontiers);
-    return lease.release(version);
+    // Once released, later frontiers describe the doc under its new random
+    // peer ID and must not be recorded against the leased one.
+    if (releasedVersion === undefined) {
+      releasedVersion = encodeVersionInput(doc, config.format, frontiers);
+      releasedOptions = options;
+    }
+    return lease ? lease.release(releasedVersion, releasedOptions) : Promise.resolve();
   };
 
-  const handle = (async (frontiers?: Frontiers | string) => {
-    await releaseAsync(frontiers);
+  const checkpointAsync = (frontiers?: Frontiers | string): Promise<void> => {
+    if (rotation) {
+      return rotation.then(() => checkpointAsync(frontiers));
+    }
+
+    if (reassigned || !lease) {
+      return Promise.resolve();
+    }
+    return lease.checkpoint(encodeVersionInput(doc, config.format, frontiers));
+  };
+
+  let stopPersistence = config.persistence
+    ? attachPersistence(
+        config.persistence,
+        config.docId,
+        (frontiers) => encodeVersionInput(doc, config.format, frontiers),
+        checkpointAsync,
+      )
+    : undefined;
+
+  const handle = (async (frontiers?: Frontiers | string, options?: ReleasePeerIdOptions) => {
+    await releaseAsync(frontiers, options);
   }) as LoroPeerIdReleaseHandle;
 
   handle.release = releaseAsync;
-  handle.isReleased = () => lease.isReleased();
-  handle.value = lease.value as PeerID;
+  handle.rotate = async (frontiers) => {
+    await track((rotation ?? Promise.resolve()).then(() => rotateLease(frontiers)));
+    return handle.value;
+  };
+  handle.checkpoint = checkpointAsync;
+  handle.isReleased = () => (lease ? lease.isReleased() : reassigned);
+  handle.value = initialLease.value as PeerID;
+  describeLease(initialLease);
 
   return handle;
 }
 
+/**
+ * Turns the persistence hook's reports into checkpoints, at most one per
+ * `throttleMs`. Versions are encoded when reported, since the doc may have
+ * moved on by the time a throttled checkpoint is written; only the latest
+ * report is kept. Returns a function that stops the wiring.
+ */
+function attachPersistence(
+  persistence: LoroPeerIdPersistence,
+  docId: string,
+  encode: (frontiers?: Frontiers | string) => string,
+  checkpoint: (version: string) => Promise<void>,
+): () => void {
+  const throttleMs = persistence.throttleMs ?? DEFAULT_CHECKPOINT_THROTTLE_MS;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pending: string | undefined;
+  let written: string | undefined;
+  let writtenAt = Number.NEGATIVE_INFINITY;
+  let stopped = false;
+
+  const flush = (): void => {
+    timer = undefined;
+    const version = pending;
+    pending = undefined;
+    if (stopped || version === undefined || version === written) {
+      return;
+    }
+
+    written = version;
+    writtenAt = Date.now();
+    checkpoint(version).catch(() => {
+      // The lease was superseded or storage failed; the next report retries.
+      if (written === version) {
+        written = undefined;
+      }
+    });
+  };
+
+  const unsubscribe = persistence.subscribe((frontiers) => {
+    if (stopped) {
+      return;
+    }
+
+    pending = encode(frontiers);
+    if (timer !== undefined) {
+      return;
+    }
+
+    const delay = writtenAt + throttleMs - Date.now();
+    if (delay <= 0) {
+      flush();
+      return;
+    }
+
+    timer = setTimeout(flush, delay);
+    unrefHandle(timer);
+  }, docId);
+
+  return () => {
+    stopped = true;
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    safeInvoke(unsubscribe);
+  };
+}
+
+function readPeerCounter(doc: LoroDoc, peerId: PeerID): number {
+  const version = doc.oplogVersion();
+  try {
+    return version.get(peerId) ?? 0;
+  } finally {
+    version.free();
+  }
+}
+
+function encodeVersionInput(
+  doc: LoroDoc,
+  format: LoroVersionFormat,
+  frontiers?: Frontiers | string,
+): string {
+  return format === "version-vector"
+    ? encodeVersionVectorInput(doc, frontiers)
+    : encodeFrontiersInput(doc, frontiers);
+}
+
 function encodeFrontiersInput(
   doc: LoroDoc,
   frontiers?: Frontiers | string,
@@ -99,6 +735,118 @@ function encodeFrontiersInput(
   return encodeFrontiers(doc.frontiers());
 }
 
+/**
+ * Accepts the same inputs as the frontiers format (including the frontiers
+ * JSON staged by `attachPeerLeaseLifecycle`) and records them as a version
+ * vector. Frontiers the doc cannot resolve fall back to its current version.
+ */
+function encodeVersionVectorInput(doc: LoroDoc, frontiers?: Frontiers | string): string {
+  if (typeof frontiers === "string" && frontiers.startsWith(VERSION_VECTOR_PREFIX)) {
+    return frontiers;
+  }
+
+  if (frontiers !== undefined) {
+    const counters = frontiersToCounters(
+      doc,
+      typeof frontiers === "string" ? decodeFrontiers(frontiers) : frontiers,
+    );
+    if (counters) {
+      return encodeCounters(counters);
+    }
+  }
+
+  return encodeOplogVersion(doc);
+}
+
+function encodeOplogVersion(doc: LoroDoc): string {
+  const version = doc.oplogVersion();
+  try {
+    return encodeCounters(version.toJSON());
+  } finally {
+    version.free();
+  }
+}
+
+/** Serializes a version vector as `vv:` followed by a `{ peer: endCounter }` object. */
+function encodeCounters(counters: Map<PeerID, number>): string {
+  return VERSION_VECTOR_PREFIX + JSON.stringify(Object.fromEntries(counters));
+}
+
+/**
+ * Reads a version recorded by either format. Frontiers (recorded before the
+ * doc switched formats) are resolved against the doc, which fails when they
+ * reference ops the doc lacks.
+ */
+function decodeCounters(doc: LoroDoc, serialized: string): Map<string, number> | undefined {
+  if (!serialized.startsWith(VERSION_VECTOR_PREFIX)) {
+    return frontiersToCounters(doc, decodeFrontiers(serialized));
+  }
+
+  try {
+    const parsed = JSON.parse(serialized.slice(VERSION_VECTOR_PREFIX.length)) as unknown;
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return undefined;
+    }
+
+    const counters = new Map<string, number>();
+    for (const [peer, counter] of Object.entries(parsed)) {
+      if (typeof counter === "number" && Number.isFinite(counter)) {
+        counters.set(peer, counter);
+      }
+    }
+    return counters;
+  } catch {
+    return undefined;
+  }
+}
+
+function frontiersToCounters(doc: LoroDoc, frontiers: Frontiers): Map<PeerID, number> | undefined {
+  try {
+    const version = doc.frontiersToVV(frontiers);
+    try {
+      return version.toJSON();
+    } finally {
+      version.free();
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * With `peerId`, a version is "newer" when it contains more of that peer's
+ * ops, so a cached ID is reusable once the doc holds every op it authored.
+ * Without, the vectors are compared as a whole (`undefined` if concurrent).
+ */
+function compareVersionVectors(
+  doc: LoroDoc,
+  left: string,
+  right: string,
+  peerId?: string,
+): number | undefined {
+  const leftCounters = decodeCounters(doc, left);
+  const rightCounters = decodeCounters(doc, right);
+  if (!leftCounters || !rightCounters) {
+    return undefined;
+  }
+
+  if (peerId !== undefined) {
+    return Math.sign((leftCounters.get(peerId) ?? 0) - (rightCounters.get(peerId) ?? 0));
+  }
+
+  let result = 0;
+  for (const peer of new Set([...leftCounters.keys(), ...rightCounters.keys()])) {
+    const cmp = Math.sign((leftCounters.get(peer) ?? 0) - (rightCounters.get(peer) ?? 0));
+    if (cmp !== 0) {
+      if (result !== 0 && cmp !== result) {
+        return undefined;
+      }
+      result = cmp;
+    }
+  }
+  return result;
+}
+
 function randomU64(): PeerID {
   return Math.floor(
     Math.random() * Number.MAX_SAFE_INTEGER,
@@ -0,0 +1,178 @@
+import type { LoroDoc } from "loro-crdt";
+import { LoroLeaseRegistry, reuseLoroPeerId, reuseLoroPeerIds } from "./loro.js";
+import type { LoroPeerIdOptions, LoroPeerIdReleaseHandle } from "./loro.js";
+import type { PeerLeaseEventListener } from "./events.js";
+import {
+  acquireLease,
+  acquireLeases,
+  createLeaseContext,
+  inspectLeaseState,
+  listLeaseDocs,
+  resetLeaseState,
+  subscribeLeaseEvents,
+} from "./peer-lease.js";
+import type {
+  AcquirePeerIdOptions,
+  AcquirePeerIdRequest,
+  PeerIdLease,
+  PeerLeaseManagerConfig,
+  PeerLeaseStateSnapshot,
+} from "./peer-lease.js";
+
+/**
+ * A set of peer lease operations bound to one storage backend, mutex factory,
+ * timing profile and key prefix. Managers never share cached peer IDs or
+ * mutexes unless they point at the same storage and prefix.
+ */
+export interface PeerLeaseManager {
+  acquirePeerId(
+    docId: string,
+    genFn: () => string,
+    version: string,
+    cmpVersion: (a: string, b: string, peerId?: string) => number | undefined,
+    options?: AcquirePeerIdOptions,
+  ): Promise<PeerIdLease>;
+  acquirePeerIds(
+    requests: readonly AcquirePeerIdRequest[],
+    options?: AcquirePeerIdOptions,
+  ): Promise<PeerIdLease[]>;
+  resetPeerLeaseState(docId?: string): Promise<void>;
+  inspectPeerLeaseState(docId: string): Promise<PeerLeaseStateSnapshot>;
+  listPeerLeaseDocs(): Promise<string[]>;
+  subscribePeerLeaseEvents(docId: string, listener: PeerLeaseEventListener): () => void;
+  tryReuseLoroPeerId(
+    docId: string,
+    doc: LoroDoc,
+    options?: LoroPeerIdOptions,
+  ): Promise<LoroPeerIdReleaseHandle>;
+  tryReuseLoroPeerIds(
+    docs: ReadonlyArray<readonly [docId: string, doc: LoroDoc]>,
+    options?: LoroPeerIdOptions,
+  ): Promise<LoroPeerIdReleaseHandle[]>;
+}
+
+/**
+ * Creates an isolated peer lease manager. Omitted settings fall back to the
+ * defaults used by the top-level exports: localStorage (or memory) storage,
+ * `createMutex`, the default timings and the `peer-lease` key prefix.
+ */
+export function createPeerLeaseManager(
+  config: PeerLeaseManagerConfig = {},
+): PeerLeaseManager {
+  const context = createLeaseContext(config);
+  const loroLeases = new LoroLeaseRegistry();
+
+  const acquirePeerId: PeerLeaseManager["acquirePeerId"] = (
+    docId,
+    genFn,
+    version,
+    cmpVersion,
+    options,
+  ) => acquireLease(context, docId, genFn, version, cmpVersion, options);
+  const acquirePeerIds: PeerLeaseManager["acquirePeerIds"] = (requests, options) =>
+    acquireLeases(context, requests, options);
+
+  return {
+    acquirePeerId,
+    acquirePeerIds,
+    resetPeerLeaseState: (docId) => resetLeaseState(context, docId),
+    inspectPeerLeaseState: (docId) => inspectLeaseState(context, docId),
+    listPeerLeaseDocs: () => listLeaseDocs(context),
+    subscribePeerLeaseEvents: (docId, listener) =>
+      subscribeLeaseEvents(context, docId, listener),
+    tryReuseLoroPeerId: (docId, doc, options) =>
+      reuseLoroPeerId(acquirePeerId, loroLeases, docId, doc, options),
+    tryReuseLoroPeerIds: (docs, options) =>
+      reuseLoroPeerIds(acquirePeerIds, loroLeases, docs, options),
+  };
+}
+
+const defaultManager = createPeerLeaseManager();
+
+/**
+ * Acquires a peer identifier that is safe to reuse for a caller operating on
+ * the provided document version of the supplied document ID. The comparator
+ * must order versions so that a positive result means “left is newer than
+ * right”. When it decides whether a cached ID can be reused, that ID is passed
+ * as the third argument, so per-peer versions such as version vectors can be
+ * checked for that peer only; the `newest-version` selection ranks cached IDs
+ * by comparing whole versions and omits it. Pass `options.signal` to cancel the wait for the document mutex
+ * and `options.timeoutMs` to override the acquire timeout for this call.
+ */
+export function acquirePeerId(
+  docId: string,
+  genFn: () => string,
+  version: string,
+  cmpVersion: (a: string, b: string, peerId?: string) => number | undefined,
+  options?: AcquirePeerIdOptions,
+): Promise<PeerIdLease> {
+  return defaultManager.acquirePeerId(docId, genFn, version, cmpVersion, options);
+}
+
+/**
+ * Acquires peer identifiers for several documents at once. Each document takes
+ * its mutex once no matter how many requests target it, and the returned
+ * leases follow the order of `requests`. If any acquisition fails, the leases
+ * already acquired are released and the first error is rethrown.
+ */
+export function acquirePeerIds(
+  requests: readonly AcquirePeerIdRequest[],
+  options?: AcquirePeerIdOptions,
+): Promise<PeerIdLease[]> {
+  return defaultManager.acquirePeerIds(requests, options);
+}
+
+export function resetPeerLeaseState(docId?: string): Promise<void> {
+  return defaultManager.resetPeerLeaseState(docId);
+}
+
+/**
+ * Returns a consistent, read-only snapshot of the cached and active peer IDs
+ * of `docId` and of the releases staged for it, for debugging.
+ */
+export function inspectPeerLeaseState(docId: string): Promise<PeerLeaseStateSnapshot> {
+  return defaultManager.inspectPeerLeaseState(docId);
+}
+
+/**
+ * Lists every document ID that has lease state in the default storage.
+ */
+export function listPeerLeaseDocs(): Promise<string[]> {
+  return defaultManager.listPeerLeaseDocs();
+}
+
+/**
+ * Observes acquisitions, releases, reclaimed stale leases, resets and drained
+ * pending releases for `docId`, locally and across tabs via
+ * `BroadcastChannel`. Returns an unsubscribe function.
+ */
+export function subscribePeerLeaseEvents(
+  docId: string,
+  listener: PeerLeaseEventListener,
+): () => void {
+  return defaultManager.subscribePeerLeaseEvents(docId, listener);
+}
+
+/**
+ * Try to reuse a previous cached peer id for the given loro doc using the
+ * default manager. Repeated calls for the same doc instance share its lease.
+ * See {@link LoroPeerIdReleaseHandle} for release semantics.
+ */
+export function tryReuseLoroPeerId(
+  docId: string,
+  doc: LoroDoc,
+  options?: LoroPeerIdOptions,
+): Promise<LoroPeerIdReleaseHandle> {
+  return defaultManager.tryReuseLoroPeerId(docId, doc, options);
+}
+
+/**
+ * Batch variant of {@link tryReuseLoroPeerId} for opening many documents at
+ * once; handles are returned in the order of `docs`.
+ */
+export function tryReuseLoroPeerIds(
+  docs: ReadonlyArray<readonly [docId: string, doc: LoroDoc]>,
+  options?: LoroPeerIdOptions,
+): Promise<LoroPeerIdReleaseHandle[]> {
+  return defaultManager.tryReuseLoroPeerIds(docs, options);
+}
@@ -0,0 +1,515 @@
+import {
+  closeSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeSync,
+} from "node:fs";
+import type { Stats } from "node:fs";
+import { hostname } from "node:os";
+import { join } from "node:path";
+import {
+  PeerLeaseTimeoutError,
+  isQuotaExceededError,
+  throwIfAborted,
+  toQuotaError,
+} from "./errors.js";
+import { unrefHandle } from "./lock.js";
+import type { AsyncMutex, MutexOptions, MutexRunOptions, StorageLike } from "./lock.js";
+import { createPeerLeaseManager } from "./manager.js";
+import type { PeerLeaseManager } from "./manager.js";
+import type { MutexFactory, PeerLeaseManagerConfig } from "./peer-lease.js";
+
+const DEFAULT_HEARTBEAT_FRACTION = 0.3;
+const LOCK_FILE_SUFFIX = ".lock";
+const FENCE_FILE_SUFFIX = ".fence";
+const GUARD_FILE_SUFFIX = ".guard";
+const TEMPORARY_FILE_PATTERN = /\.\d+\.[0-9a-f]+-[0-9a-f]*-\d+\.tmp$/;
+
+/**
+ * Synchronous {@link StorageLike} that keeps one file per key inside a
+ * directory. Writes go through a temporary file and an atomic rename so
+ * concurrent readers in other processes never observe partial values.
+ */
+export class FileStorage implements StorageLike {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    if (!isNonEmptyString(directory)) {
+      throw new TypeError("FileStorage expects a non-empty directory path");
+    }
+
+    this.directory = directory;
+    mkdirSync(directory, { recursive: true });
+  }
+
+  getItem(key: string): string | null {
+    return readFileOrNull(this.pathFor(key));
+  }
+
+  setItem(key: string, value: string): void {
+    writeFileAtomic(this.pathFor(key), value);
+  }
+
+  removeItem(key: string): void {
+    rmSync(this.pathFor(key), { force: true });
+  }
+
+  keys(): string[] {
+    const keys: string[] = [];
+    for (const name of readdirSync(this.directory)) {
+      // Skip in-flight atomic writes; their names end in `.<pid>.<token>.tmp`.
+      if (TEMPORARY_FILE_PATTERN.test(name)) {
+        continue;
+      }
+
+      try {
+        keys.push(decodeURIComponent(name));
+      } catch {
+        // Not a file this storage wrote.
+      }
+    }
+    return keys;
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, encodeFileName(key));
+  }
+}
+
+interface FileLockRecord {
+  token: string;
+  pid: number;
+  hostname: string;
+  expiresAt: number;
+  fence: number;
+}
+
+export interface FileLockMutexConfig {
+  /** Path of the exclusive lock file. */
+  path: string;
+  /** Path of the monotonically increasing fence counter; defaults to `<path>.fence`. */
+  fencePath?: string;
+  options: MutexOptions;
+}
+
+/**
+ * Cross-process mutex built on exclusively created lock files. The holder
+ * refreshes the record's expiry with a heartbeat; contenders treat a record as
+ * stale once it expires or, on the same host, once its owning process is gone,
+ * mirroring the TTL and fence handling of `LocalStorageMutex`. Heartbeats,
+ * releases and stale takeovers run under a short-lived `<path>.guard` file,
+ * so none of them can act on a lock file another process just created.
+ */
+export class FileLockMutex implements AsyncMutex {
+  private readonly path: string;
+  private readonly fencePath: string;
+  private readonly guardPath: string;
+  private readonly options: MutexOptions;
+  private heartbeat?: ReturnType<typeof setInterval>;
+
+  constructor(config: FileLockMutexConfig) {
+    if (!isNonEmptyString(config.path)) {
+      throw new TypeError("FileLockMutex expects a non-empty lock file path");
+    }
+
+    this.path = config.path;
+    this.fencePath = config.fencePath ?? config.path + FENCE_FILE_SUFFIX;
+    this.guardPath = config.path + GUARD_FILE_SUFFIX;
+    this.options = config.options;
+  }
+
+  async runExclusive<T>(callback: () => T | Promise<T>, options: MutexRunOptions = {}): Promise<T> {
+    const { signal } = options;
+    const token = randomToken();
+    const deadline = Date.now() + (options.timeoutMs ?? this.options.acquireTimeoutMs);
+
+    while (true) {
+      throwIfAborted(signal);
+
+      if (this.tryAcquireOrThrow(token)) {
+        this.startHeartbeat(token);
+
+        try {
+          return await callback();
+        } finally {
+          this.stopHeartbeat();
+          await this.release(token);
+        }
+      }
+
+      if (Date.now() >= deadline) {
+        throw new PeerLeaseTimeoutError("Timed out acquiring the peer lease file lock");
+      }
+
+      await this.waitBeforeRetry(deadline, signal);
+    }
+  }
+
+  /** Reports a full disk or exhausted quota (`ENOSPC`, `EDQUOT`) as `PeerLeaseQuotaError`. */
+  private tryAcquireOrThrow(token: string): boolean {
+    try {
+      return this.tryAcquire(token);
+    } catch (error) {
+      if (isQuotaExceededError(error)) {
+        throw toQuotaError(error);
+      }
+      throw error;
+    }
+  }
+
+  private tryAcquire(token: string): boolean {
+    const existing = this.readLock();
+    if (existing !== undefined) {
+      if (!this.isStale(existing)) {
+        return false;
+      }
+
+      if (!this.withGuard(() => this.evictStale())) {
+        return false;
+      }
+    }
+
+    const record: FileLockRecord = {
+      token,
+      pid: process.pid,
+      hostname: hostname(),
+      expiresAt: Date.now() + this.options.lockTtlMs,
+      fence: 0,
+    };
+
+    let fd: number;
+    try {
+      fd = openSync(this.path, "wx");
+    } catch (error) {
+      if (hasErrorCode(error, "EEXIST")) {
+        return false;
+      }
+      throw error;
+    }
+
+    try {
+      record.fence = this.bumpFence(existing?.fence ?? 0);
+      writeSync(fd, JSON.stringify(record));
+    } finally {
+      closeSync(fd);
+    }
+
+    const stored = this.readLock();
+    return stored !== undefined && stored !== null && stored.token === token && stored.fence === record.fence;
+  }
+
+  /**
+   * Runs `action` while holding the guard file, which every removal or
+   * replacement of an existing lock file takes. New lock files are only ever
+   * created where none exists, so inside the guard the file read is the file
+   * acted on. Returns `undefined` if another process holds the guard.
+   */
+  private withGuard<T>(action: () => T): T | undefined {
+    try {
+      closeSync(openSync(this.guardPath, "wx"));
+    } catch (error) {
+      if (hasErrorCode(error, "EEXIST")) {
+        this.clearStaleGuard();
+        return undefined;
+      }
+      throw error;
+    }
+
+    const guard = statSync(this.guardPath);
+    try {
+      return action();
+    } finally {
+      removeIfUnchanged(this.guardPath, guard);
+    }
+  }
+
+  /**
+   * The guard is held for a few synchronous calls only, so one older than a
+   * lock TTL was left behind by a process that crashed while holding it.
+   */
+  private clearStaleGuard(): void {
+    const guard = statOrNull(this.guardPath);
+    if (guard && Date.now() - guard.mtimeMs >= this.options.lockTtlMs) {
+      removeIfUnchanged(this.guardPath, guard);
+    }
+  }
+
+  /** Removes the lock file if it is still stale; must run inside the guard. */
+  private evictStale(): boolean {
+    const current = this.readLock();
+    if (current === undefined) {
+      return true;
+    }
+    if (!this.isStale(current)) {
+      return false;
+    }
+
+    rmSync(this.path, { force: true });
+    return true;
+  }
+
+  /**
+   * `null` marks a lock file that exists but could not be parsed, which happens
+   * while its creator is still writing the record.
+   */
+  private readLock(): FileLockRecord | null | undefined {
+    const raw = readFileOrNull(this.path);
+    if (raw === null) {
+      return undefined;
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as Partial<FileLockRecord>;
+      if (
+        typeof parsed?.token !== "string" ||
+        typeof parsed?.expiresAt !== "number" ||
+        typeof parsed?.fence !== "number"
+      ) {
+        return null;
+      }
+
+      return parsed as FileLockRecord;
+    } catch {
+      return null;
+    }
+  }
+
+  private isStale(record: FileLockRecord | null): boolean {
+    if (record === null) {
+      // Only reclaim unreadable records once they have not been touched for a full TTL.
+      const modifiedAt = modifiedTimeOrNull(this.path);
+      return modifiedAt !== null && Date.now() - modifiedAt >= this.options.lockTtlMs;
+    }
+
+    if (record.expiresAt <= Date.now()) {
+      return true;
+    }
+
+    return record.hostname === hostname() && typeof record.pid === "number" && !isProcessAlive(record.pid);
+  }
+
+  private startHeartbeat(token: string): void {
+    const interval = Math.max(
+      1,
+      Math.floor(this.options.lockTtlMs * (this.options.heartbeatIntervalFraction ?? DEFAULT_HEARTBEAT_FRACTION)),
+    );
+
+    this.heartbeat = setInterval(() => {
+      try {
+        if (!this.refresh(token)) {
+          this.stopHeartbeat();
+        }
+      } catch {
+        this.stopHeartbeat();
+      }
+    }, interval);
+    unrefHandle(this.heartbeat);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat !== undefined) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+    }
+  }
+
+  /** Returns `false` once the lock file is no longer ours; a busy guard skips this beat. */
+  private refresh(token: string): boolean {
+    const refreshed = this.withGuard(() => {
+      const record = this.readLock();
+      if (!record || record.token !== token) {
+        return false;
+      }
+
+      writeFileAtomic(
+        this.path,
+        JSON.stringify({
+          ...record,
+          expiresAt: Date.now() + this.options.lockTtlMs,
+        }),
+      );
+      return true;
+    });
+    return refreshed ?? true;
+  }
+
+  /**
+   * Removes our lock file. While another process holds the guard we retry
+   * briefly; after that the file is left to expire, as after a crash.
+   */
+  private async release(token: string): Promise<void> {
+    const deadline = Date.now() + this.options.lockTtlMs;
+    while (true) {
+      const released = this.withGuard(() => {
+        const record = this.readLock();
+        if (record && record.token === token) {
+          rmSync(this.path, { force: true });
+        }
+        return true;
+      });
+      if (released || Date.now() >= deadline) {
+        return;
+      }
+      await this.waitBeforeRetry(deadline);
+    }
+  }
+
+  private bumpFence(previousFence: number): number {
+    const raw = readFileOrNull(this.fencePath);
+    const current = raw ? Number.parseInt(raw, 10) : 0;
+    const baseline = Number.isFinite(current) ? current : 0;
+    const next = Math.max(baseline, previousFence) + 1;
+    writeFileAtomic(this.fencePath, String(next));
+    return next;
+  }
+
+  private async waitBeforeRetry(deadline: number, signal?: AbortSignal): Promise<void> {
+    const jitter = Math.floor(Math.random() * this.options.retryJitterMs);
+    const waitMs = Math.min(this.options.retryDelayMs + jitter, Math.max(0, deadline - Date.now()));
+
+    if (waitMs <= 0) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      const wake = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener("abort", wake);
+        resolve();
+      };
+      const timeout = setTimeout(wake, waitMs);
+      signal?.addEventListener("abort", wake, { once: true });
+    });
+  }
+}
+
+/**
+ * Returns a mutex factory that keeps one lock file per document inside
+ * `directory`, for use with `createPeerLeaseManager`.
+ */
+export function createFileMutexFactory(directory: string): MutexFactory {
+  if (!isNonEmptyString(directory)) {
+    throw new TypeError("createFileMutexFactory expects a non-empty directory path");
+  }
+
+  mkdirSync(directory, { recursive: true });
+
+  return (config) => {
+    const path = join(directory, encodeFileName(config.lockKey) + LOCK_FILE_SUFFIX);
+    return new FileLockMutex({
+      path,
+      fencePath: join(directory, encodeFileName(config.fenceKey) + FENCE_FILE_SUFFIX),
+      options: config.options,
+    });
+  };
+}
+
+/**
+ * Creates a peer lease manager whose state and locks live in `directory`, so
+ * separate Node or Electron processes sharing that directory never hand out
+ * the same peer ID concurrently.
+ */
+export function createFilePeerLeaseManager(
+  directory: string,
+  config: Omit<PeerLeaseManagerConfig, "storage" | "mutexFactory"> = {},
+): PeerLeaseManager {
+  return createPeerLeaseManager({
+    ...config,
+    storage: new FileStorage(directory),
+    mutexFactory: createFileMutexFactory(directory),
+  });
+}
+
+function readFileOrNull(path: string): string | null {
+  try {
+    return readFileSync(path, "utf8");
+  } catch (error) {
+    if (hasErrorCode(error, "ENOENT")) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function modifiedTimeOrNull(path: string): number | null {
+  return statOrNull(path)?.mtimeMs ?? null;
+}
+
+function statOrNull(path: string): Stats | null {
+  try {
+    return statSync(path);
+  } catch (error) {
+    if (hasErrorCode(error, "ENOENT")) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/** Removes `path` only while it is still the file `expected` describes. */
+function removeIfUnchanged(path: string, expected: Stats): void {
+  const current = statOrNull(path);
+  if (
+    current &&
+    current.ino === expected.ino &&
+    current.dev === expected.dev &&
+    current.mtimeMs === expected.mtimeMs
+  ) {
+    rmSync(path, { force: true });
+  }
+}
+
+function writeFileAtomic(path: string, value: string): void {
+  const temporary = `${path}.${process.pid}.${randomToken()}.tmp`;
+  const fd = openSync(temporary, "w");
+  try {
+    writeSync(fd, value);
+  } finally {
+    closeSync(fd);
+  }
+
+  try {
+    renameSync(temporary, path);
+  } catch (error) {
+    rmSync(temporary, { force: true });
+    throw error;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user.
+    return !hasErrorCode(error, "ESRCH");
+  }
+}
+
+function hasErrorCode(error: unknown, code: string): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { code?: unknown }).code === code
+  );
+}
+
+function encodeFileName(key: string): string {
+  // encodeURIComponent leaves `*` untouched, which Windows rejects in file names.
+  return encodeURIComponent(key).replace(/\*/g, "%2A");
+}
+
+function randomToken(): string {
+  return `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}-${tokenCounter++}`;
+}
+
+let tokenCounter = 0;
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
@@ -1,152 +1,738 @@
 import {
   AsyncMutex,
+  AsyncStorageLike,
+  CreateMutexConfig,
+  HeldWebLock,
+  LockManagerLike,
+  MutexOptions,
+  MutexRunOptions,
   StorageLike,
   createLeaseStorage,
   createMutex,
+  getNavigatorLocks,
+  holdWebLock,
+  queryHeldWebLocks,
+  toAsyncStorage,
+  unrefHandle,
 } from "./lock.js";
-
-const LOCK_KEY_PREFIX = "peer-lease:lock:";
-const LOCK_FENCE_KEY_PREFIX = "peer-lease:lock:fence:";
-const LOCK_CHANNEL_PREFIX = "peer-lease:lock:channel:";
-const LOCK_NAME_PREFIX = "peer-lease::mutex:";
-const STATE_KEY_PREFIX = "peer-lease:state:";
-const PENDING_KEY_PREFIX = "peer-lease:pending:";
-
-const LOCK_TTL_MS = 10_000;
-const ACQUIRE_TIMEOUT_MS = 5_000;
-const RETRY_DELAY_MS = 40;
-const RETRY_JITTER_MS = 60;
-const HEARTBEAT_INTERVAL_FRACTION = 0.3;
+import {
+  PeerLeaseDoubleReleaseError,
+  PeerLeaseGeneratorError,
+  PeerLeaseStaleLeaseError,
+  isQuotaExceededError,
+  throwIfAborted,
+  toQuotaError,
+  toStorageError,
+} from "./errors.js";
+import { LeaseEventHub } from "./events.js";
+import { CorruptRecordError, decodeRecord, encodeRecord } from "./schema.js";
+import type { PeerLeaseEventInit, PeerLeaseEventListener } from "./events.js";
+
+const DEFAULT_KEY_PREFIX = "peer-lease";
+const LOCK_KEY_SEGMENT = ":lock:";
+const LOCK_FENCE_KEY_SEGMENT = ":lock:fence:";
+const LOCK_CHANNEL_SEGMENT = ":lock:channel:";
+const LOCK_NAME_SEGMENT = "::mutex:";
+const HELD_LOCK_NAME_SEGMENT = "::held:";
+const EVENT_CHANNEL_SEGMENT = ":events:";
+const STATE_KEY_SEGMENT = ":state:";
+const STATE_BACKUP_KEY_SEGMENT = ":state-backup:";
+const PENDING_KEY_SEGMENT = ":pending:";
+
+// Pre-2.0 releases kept a single global state guarded by a global lock.
+const LEGACY_STATE_KEY_SEGMENT = ":state";
+const LEGACY_LOCK_KEY_SEGMENT = ":lock";
+const LEGACY_FENCE_KEY_SEGMENT = ":lock:fence";
+const LEGACY_CHANNEL_SEGMENT = ":lock:channel";
+const LEGACY_LOCK_NAME_SEGMENT = "::mutex";
 const MAX_GENERATION_ATTEMPTS = 32;
-const LEASE_STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+// Burned IDs are remembered per document, newest last, up to this many.
+const MAX_BURNED_PEER_IDS = 256;
+// Records written before heartbeats existed never refresh, so keep the
+// original fixed cutoff for them.
+const LEGACY_LEASE_STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Tunable intervals used by a peer lease manager. All values are in
+ * milliseconds except `heartbeatIntervalFraction`, which is relative to
+ * `lockTtlMs`.
+ */
+export interface PeerLeaseTimings {
+  lockTtlMs: number;
+  acquireTimeoutMs: number;
+  retryDelayMs: number;
+  retryJitterMs: number;
+  heartbeatIntervalFraction: number;
+  /** How long an active lease survives without a holder heartbeat. */
+  leaseTtlMs: number;
+  /** How often a live `PeerIdLease` refreshes its active record. */
+  leaseHeartbeatIntervalMs: number;
+}
+
+export const DEFAULT_PEER_LEASE_TIMINGS: Readonly<PeerLeaseTimings> = {
+  lockTtlMs: 10_000,
+  acquireTimeoutMs: 5_000,
+  retryDelayMs: 40,
+  retryJitterMs: 60,
+  heartbeatIntervalFraction: 0.3,
+  // Background tabs may only run timers once per minute, so tolerate a
+  // couple of missed heartbeats before treating the holder as gone.
+  leaseTtlMs: 3 * 60_000,
+  leaseHeartbeatIntervalMs: 30_000,
+};
+
+/**
+ * Limits on the per-document cache of released peer IDs, enforced whenever
+ * the state is written.
+ */
+export interface PeerIdCachePolicy {
+  /** Most cached IDs kept per document; the rest are evicted per `eviction`. */
+  maxEntries: number;
+  /**
+   * Which IDs go first once `maxEntries` is exceeded: `oldest-release` drops
+   * the IDs released longest ago, `lru` the IDs handed out longest ago.
+   */
+  eviction: "oldest-release" | "lru";
+  /** Evicts cached IDs released longer ago than this. */
+  maxAgeMs: number;
+  /**
+   * Evicts cached IDs the comparator could not order (returned `undefined`)
+   * against this many acquire attempts in a row, as they are unlikely to be
+   * reused. An attempt that orders the ID starts the count over.
+   */
+  maxUnreusableAttempts: number;
+}
+
+export const DEFAULT_PEER_ID_CACHE_POLICY: Readonly<PeerIdCachePolicy> = {
+  maxEntries: 64,
+  eviction: "oldest-release",
+  maxAgeMs: Number.POSITIVE_INFINITY,
+  maxUnreusableAttempts: Number.POSITIVE_INFINITY,
+};
+
+const CACHE_EVICTION_POLICIES: ReadonlySet<string> = new Set(["oldest-release", "lru"]);
+
+/**
+ * Ranks a reusable cached ID for `request`; higher scores win and `undefined`
+ * (or `NaN`) rules the ID out. Ties keep release order.
+ */
+export type PeerIdScorer = (
+  candidate: PeerLeaseCachedEntry,
+  request: AcquirePeerIdRequest,
+) => number | undefined;
+
+/**
+ * Which reusable cached ID an acquire takes. Only IDs released at a version
+ * no newer than the requested one are candidates.
+ *
+ * - `first-match` – the ID released longest ago (the default).
+ * - `newest-version` – the ID whose version is closest to the requested one,
+ *   which keeps the per-peer counters of CRDTs such as Loro dense.
+ * - `most-recently-released` – the ID released last.
+ * - a {@link PeerIdScorer} – the highest scoring ID.
+ */
+export type PeerIdSelectionStrategy =
+  | "first-match"
+  | "newest-version"
+  | "most-recently-released"
+  | PeerIdScorer;
+
+const SELECTION_STRATEGIES: ReadonlySet<string> = new Set([
+  "first-match",
+  "newest-version",
+  "most-recently-released",
+]);
+
+/**
+ * Tags recorded with a lease and its cached ID, e.g. the signed-in account or
+ * the app's document schema, so IDs are only reused where they belong.
+ */
+export type PeerLeaseScope = Readonly<Record<string, string | number | boolean | null>>;
+
+/**
+ * Decides whether an ID cached with `cached` may be reused by an acquire
+ * with `scope`. Either is `undefined` when no scope was given.
+ */
+export type PeerLeaseScopeMatcher = (
+  cached: PeerLeaseScope | undefined,
+  scope: PeerLeaseScope | undefined,
+) => boolean;
+
+export type MutexFactory = (config: CreateMutexConfig) => AsyncMutex;
+
+/**
+ * Assigns the entries of the pre-2.0 global state (written before `docId`
+ * existed) to documents: either one document ID for every entry, or a function
+ * returning the document of each cached or active peer ID. Entries mapped to
+ * `null` or `undefined` are dropped.
+ */
+export type LegacyDocIdMapping =
+  | string
+  | ((entry: { peerId: string; version: string }) => string | null | undefined);
+
+export interface PeerLeaseManagerConfig {
+  /**
+   * Synchronous storage for lock records and releases staged during
+   * `pagehide`; defaults to localStorage or memory. Also holds the lease state
+   * unless `stateStorage` is provided.
+   */
+  storage?: StorageLike;
+  /**
+   * Asynchronous backend (e.g. {@link IndexedDBStorage}) for the per-document
+   * lease state, for environments such as workers without localStorage.
+   * Staged releases are mirrored here too, so another context can apply them
+   * if this one dies before flushing.
+   */
+  stateStorage?: AsyncStorageLike;
+  /** Builds the per-document mutex; defaults to {@link createMutex}. */
+  mutexFactory?: MutexFactory;
+  timings?: Partial<PeerLeaseTimings>;
+  /** Bounds on the cache of released peer IDs; see {@link DEFAULT_PEER_ID_CACHE_POLICY}. */
+  cache?: Partial<PeerIdCachePolicy>;
+  /** Namespace for storage keys, lock names and channels. Defaults to `peer-lease`. */
+  keyPrefix?: string;
+  /** Default {@link PeerIdSelectionStrategy}; `first-match` unless set. */
+  selection?: PeerIdSelectionStrategy;
+  /**
+   * Moves the pre-2.0 global state into per-document state on first use.
+   * Without a mapping that state cannot be attributed and is discarded.
+   */
+  legacyDocId?: LegacyDocIdMapping;
+}
+
+/**
+ * Configuration and per-document mutex cache shared by every operation of a
+ * single peer lease manager.
+ */
+export interface LeaseContext {
+  readonly storage: StorageLike;
+  readonly stateStorage: AsyncStorageLike;
+  /** Whether staged releases are mirrored to a separate `stateStorage`. */
+  readonly mirrorsJournal: boolean;
+  readonly mutexFactory: MutexFactory;
+  readonly timings: Readonly<PeerLeaseTimings>;
+  readonly cache: Readonly<PeerIdCachePolicy>;
+  readonly keyPrefix: string;
+  readonly selection: PeerIdSelectionStrategy;
+  readonly mutexes: Map<string, AsyncMutex>;
+  /** Web Locks used to hold each lease for its lifetime, when available. */
+  readonly locks: LockManagerLike | null;
+  readonly events: LeaseEventHub;
+  readonly legacyDocId: LegacyDocIdMapping | null;
+}
+
+/** Per-call options for `acquirePeerId`. */
+export interface AcquirePeerIdOptions {
+  /**
+   * Cancels the call while it waits for the document mutex; it then rejects
+   * with a `PeerLeaseAbortError` and leaves the stored state untouched.
+   */
+  signal?: AbortSignal;
+  /**
+   * Overrides `timings.acquireTimeoutMs` for this call. `0` never waits: the
+   * call rejects with a `PeerLeaseTimeoutError` if the document mutex is held.
+   */
+  timeoutMs?: number;
+  /**
+   * Opt-in. When no cached ID can be reused but one another holder is still
+   * using could be, wait up to this long for it to be released before
+   * generating a fresh ID. `signal` also cancels this wait. Defaults to 0.
+   */
+  waitForReleaseMs?: number;
+  /** Overrides the manager's {@link PeerIdSelectionStrategy} for this call. */
+  selection?: PeerIdSelectionStrategy;
+  /** Recorded with the lease and, unless overridden on release, its cached ID. */
+  scope?: PeerLeaseScope;
+  /**
+   * Restricts reuse to cached IDs whose scope matches. Defaults to requiring
+   * the same keys and values, so unscoped IDs only go to unscoped acquires.
+   */
+  matchScope?: PeerLeaseScopeMatcher;
+}
+
+/**
+ * Where a lease's ID came from: a cached ID, a freshly generated one, or a
+ * fresh untracked one handed out while storage was full.
+ */
+export type PeerIdOrigin = "reused" | "generated" | "fallback";
+
+/**
+ * What an acquire made of an ID it could have reused:
+ *
+ * - `reused` – handed out by this acquire.
+ * - `newer-version` – cached at a version newer than the requested one.
+ * - `unordered` – the comparator could not order the versions.
+ * - `out-of-scope` – cached under a scope `matchScope` rejected.
+ * - `ruled-out` – the selection scorer excluded it.
+ * - `outranked` – reusable, but a better ranked ID was reused.
+ * - `held-elsewhere` – its per-lease Web Lock was still held by another tab.
+ * - `skipped` – not evaluated; `first-match` reused an earlier ID.
+ * - `in-use` – leased by another holder at the time.
+ */
+export type PeerIdCandidateOutcome =
+  | "reused"
+  | "newer-version"
+  | "unordered"
+  | "out-of-scope"
+  | "ruled-out"
+  | "outranked"
+  | "held-elsewhere"
+  | "skipped"
+  | "in-use";
+
+/** One cached or active ID considered by an acquire. */
+export interface PeerIdCandidate {
+  peerId: string;
+  version: string;
+  outcome: PeerIdCandidateOutcome;
+}
+
+/** Options for {@link PeerIdLease.release}. */
+export interface ReleasePeerIdOptions {
+  /** Replaces the scope recorded at acquire time, e.g. after a sign-out. */
+  scope?: PeerLeaseScope;
+}
+
+/** One document's entry in a batch passed to `acquirePeerIds`. */
+export interface AcquirePeerIdRequest {
+  docId: string;
+  genFn: () => string;
+  version: string;
+  /**
+   * Orders two versions; see `acquirePeerId`. When judging whether a cached
+   * or active ID can be reused, that ID is passed as `peerId`. The
+   * `newest-version` selection orders two cached versions against each other
+   * and passes no `peerId`, asking for a whole-version comparison.
+   */
+  cmpVersion: (a: string, b: string, peerId?: string) => number | undefined;
+}
+
+export type AcquirePeerIdFn = (
+  docId: string,
+  genFn: () => string,
+  version: string,
+  cmpVersion: (a: string, b: string, peerId?: string) => number | undefined,
+  options?: AcquirePeerIdOptions,
+) => Promise<PeerIdLease>;
+
+export type AcquirePeerIdsFn = (
+  requests: readonly AcquirePeerIdRequest[],
+  options?: AcquirePeerIdOptions,
+) => Promise<PeerIdLease[]>;
 
 interface CachedPeerId {
   id: string;
   version: string;
+  /** Epoch of the lease that released this ID. */
+  epoch?: number;
+  /** When the ID entered the cache; stamped on the first write if missing. */
+  releasedAt?: number;
+  /** When the ID was last handed out. */
+  leasedAt?: number;
+  /** Acquire attempts whose version the comparator could not order against this one. */
+  misses?: number;
+  scope?: PeerLeaseScope;
 }
 
 interface ActiveLeaseInfo {
   leasedAt: number;
   version: string;
+  /** Last time the holder proved it is alive; absent on legacy records. */
+  heartbeatAt?: number;
+  /** The record is dropped once this passes without a heartbeat. */
+  expiresAt?: number;
+  /** Web Lock the holder keeps for the lease lifetime, if any. */
+  heldLock?: string;
+  /** Fencing token; releases carrying a different epoch are rejected. */
+  epoch?: number;
+  /** Last version the holder reported as durably persisted. */
+  checkpoint?: string;
+  scope?: PeerLeaseScope;
 }
 
 interface LeaseState {
   available: CachedPeerId[];
   active: Record<string, ActiveLeaseInfo>;
+  /** Last epoch handed out for this document; only ever increases. */
+  epoch: number;
+  /** IDs known to collide with foreign ops; never cached or generated again. */
+  burned?: string[];
 }
 
 type PendingReleaseEntry = CachedPeerId;
 
+/** A cached or staged peer ID as reported by {@link inspectLeaseState}. */
+export interface PeerLeaseCachedEntry {
+  peerId: string;
+  version: string;
+  epoch?: number;
+  /** When a cached ID was released; absent on staged releases. */
+  releasedAt?: number;
+  /** When a cached ID was last handed out, if known. */
+  leasedAt?: number;
+  /** Acquire attempts whose version could not be ordered against this one. */
+  unreusableAttempts?: number;
+  scope?: PeerLeaseScope;
+}
+
+/** An active lease as reported by {@link inspectLeaseState}. */
+export interface PeerLeaseActiveEntry {
+  peerId: string;
+  version: string;
+  leasedAt: number;
+  heartbeatAt?: number;
+  expiresAt?: number;
+  /** Name of the Web Lock the holder keeps while the lease is alive. */
+  heldLock?: string;
+  epoch?: number;
+  /** Version the ID is cached at if the holder disappears. */
+  checkpoint?: string;
+  scope?: PeerLeaseScope;
+}
+
+/**
+ * Read-only view of one document's lease state, taken under its mutex so the
+ * stored state and the pending-release journal are consistent with each other.
+ */
+export interface PeerLeaseStateSnapshot {
+  docId: string;
+  /** Last epoch handed out for the document. */
+  epoch: number;
+  available: PeerLeaseCachedEntry[];
+  active: PeerLeaseActiveEntry[];
+  /** Releases staged synchronously that the next critical section will apply. */
+  pendingReleases: PeerLeaseCachedEntry[];
+  /** IDs burned after a collision, oldest first; they are never handed out again. */
+  burned: string[];
+}
+
+interface WithStateOptions extends MutexRunOptions {
+  /** The caller's own staged release, so it is not also reported as drained. */
+  ownRelease?: PendingReleaseEntry;
+}
+
 interface PendingDrainResult {
   snapshot: string | null;
+  /** The mirrored journal in `stateStorage` as drained, if mirrored. */
+  mirrorSnapshot: string | null;
   entries: PendingReleaseEntry[];
+  /** Staged releases discarded because their lease was superseded. */
+  rejected: PendingReleaseEntry[];
+  /** Why the journal was discarded as corrupt, if it was. */
+  corruption: string | null;
 }
 
-const storage: StorageLike = createLeaseStorage();
-const mutexes = new Map<string, AsyncMutex>();
-const MUTEX_OPTIONS = {
-  lockTtlMs: LOCK_TTL_MS,
-  acquireTimeoutMs: ACQUIRE_TIMEOUT_MS,
-  retryDelayMs: RETRY_DELAY_MS,
-  retryJitterMs: RETRY_JITTER_MS,
-  heartbeatIntervalFraction: HEARTBEAT_INTERVAL_FRACTION,
-};
+export function createLeaseContext(config: PeerLeaseManagerConfig = {}): LeaseContext {
+  const keyPrefix = config.keyPrefix ?? DEFAULT_KEY_PREFIX;
+  if (!isNonEmptyString(keyPrefix)) {
+    throw new TypeError("createPeerLeaseManager expects a non-empty keyPrefix string");
+  }
+
+  if (config.mutexFactory !== undefined && typeof config.mutexFactory !== "function") {
+    throw new TypeError("createPeerLeaseManager expects mutexFactory to be a function");
+  }
+
+  const { legacyDocId } = config;
+  if (
+    legacyDocId !== undefined &&
+    !isNonEmptyString(legacyDocId) &&
+    typeof legacyDocId !== "function"
+  ) {
+    throw new TypeError(
+      "createPeerLeaseManager expects legacyDocId to be a non-empty string or a function",
+    );
+  }
+
+  const timings = { ...DEFAULT_PEER_LEASE_TIMINGS };
+  for (const [key, value] of Object.entries(config.timings ?? {})) {
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new TypeError(`createPeerLeaseManager expects timings.${key} to be a non-negative number`);
+    }
+    timings[key as keyof PeerLeaseTimings] = value;
+  }
+
+  const cache = { ...DEFAULT_PEER_ID_CACHE_POLICY };
+  for (const [key, value] of Object.entries(config.cache ?? {})) {
+    if (value === undefined) {
+      continue;
+    }
+    if (key === "eviction") {
+      if (typeof value !== "string" || !CACHE_EVICTION_POLICIES.has(value)) {
+        throw new TypeError(
+          'createPeerLeaseManager expects cache.eviction to be "oldest-release" or "lru"',
+        );
+      }
+      cache.eviction = value;
+      continue;
+    }
+    if (typeof value !== "number" || Number.isNaN(value) || value < 0) {
+      throw new TypeError(`createPeerLeaseManager expects cache.${key} to be a non-negative number`);
+    }
+    (cache as Record<string, unknown>)[key] = value;
+  }
+
+  if (config.selection !== undefined && !isSelectionStrategy(config.selection)) {
+    throw new TypeError(
+      "createPeerLeaseManager expects selection to be a known strategy or a scorer function",
+    );
+  }
+
+  const storage = config.storage ?? createLeaseStorage();
+  return {
+    storage,
+    stateStorage: config.stateStorage ?? toAsyncStorage(storage),
+    mirrorsJournal: config.stateStorage !== undefined,
+    mutexFactory: config.mutexFactory ?? createMutex,
+    timings,
+    cache,
+    keyPrefix,
+    selection: config.selection ?? "first-match",
+    mutexes: new Map(),
+    locks: getNavigatorLocks(),
+    events: new LeaseEventHub(keyPrefix + EVENT_CHANNEL_SEGMENT),
+    legacyDocId: legacyDocId ?? null,
+  };
+}
 
-function getDocMutex(docId: string): AsyncMutex {
-  let mutex = mutexes.get(docId);
+function getDocMutex(context: LeaseContext, docId: string): AsyncMutex {
+  let mutex = context.mutexes.get(docId);
   if (!mutex) {
-    mutex = createMutex({
-      storage,
-      lockKey: getLockKey(docId),
-      fenceKey: getFenceKey(docId),
-      channelName: getChannelName(docId),
-      webLockName: getWebLockName(docId),
-      options: MUTEX_OPTIONS,
+    mutex = context.mutexFactory({
+      storage: context.storage,
+      lockKey: getLockKey(context, docId),
+      fenceKey: getFenceKey(context, docId),
+      channelName: getChannelName(context, docId),
+      webLockName: getWebLockName(context, docId),
+      options: getMutexOptions(context),
     });
-    mutexes.set(docId, mutex);
+    context.mutexes.set(docId, mutex);
   }
   return mutex;
 }
 
+/**
+ * The pre-2.0 global lock. Taking it also excludes tabs still running an old
+ * release while their global state is migrated.
+ */
+function createLegacyMutex(context: LeaseContext): AsyncMutex {
+  const { keyPrefix } = context;
+  return context.mutexFactory({
+    storage: context.storage,
+    lockKey: keyPrefix + LEGACY_LOCK_KEY_SEGMENT,
+    fenceKey: keyPrefix + LEGACY_FENCE_KEY_SEGMENT,
+    channelName: keyPrefix + LEGACY_CHANNEL_SEGMENT,
+    webLockName: keyPrefix + LEGACY_LOCK_NAME_SEGMENT,
+    options: getMutexOptions(context),
+  });
+}
+
+function getMutexOptions(context: LeaseContext): MutexOptions {
+  const { timings } = context;
+  return {
+    lockTtlMs: timings.lockTtlMs,
+    acquireTimeoutMs: timings.acquireTimeoutMs,
+    retryDelayMs: timings.retryDelayMs,
+    retryJitterMs: timings.retryJitterMs,
+    heartbeatIntervalFraction: timings.heartbeatIntervalFraction,
+  };
+}
+
 function withDocMutex<T>(
+  context: LeaseContext,
   docId: string,
   callback: () => T | Promise<T>,
+  options: MutexRunOptions = {},
 ): Promise<T> {
-  return getDocMutex(docId).runExclusive(callback);
+  const { signal } = options;
+  return getDocMutex(context, docId).runExclusive(() => {
+    // The signal may fire between the grant and this callback; bail out
+    // before touching any state.
+    throwIfAborted(signal);
+    return callback();
+  }, options);
+}
+
+function getStateKey(context: LeaseContext, docId: string): string {
+  return context.keyPrefix + STATE_KEY_SEGMENT + encodeDocId(docId);
 }
 
-function getStateKey(docId: string): string {
-  return STATE_KEY_PREFIX + encodeDocId(docId);
+function getStateBackupKey(context: LeaseContext, docId: string): string {
+  return context.keyPrefix + STATE_BACKUP_KEY_SEGMENT + encodeDocId(docId);
 }
 
-function getPendingKey(docId: string): string {
-  return PENDING_KEY_PREFIX + encodeDocId(docId);
+function getPendingKey(context: LeaseContext, docId: string): string {
+  return context.keyPrefix + PENDING_KEY_SEGMENT + encodeDocId(docId);
 }
 
-function getLockKey(docId: string): string {
-  return LOCK_KEY_PREFIX + encodeDocId(docId);
+function getLockKey(context: LeaseContext, docId: string): string {
+  return context.keyPrefix + LOCK_KEY_SEGMENT + encodeDocId(docId);
 }
 
-function getFenceKey(docId: string): string {
-  return LOCK_FENCE_KEY_PREFIX + encodeDocId(docId);
+function getFenceKey(context: LeaseContext, docId: string): string {
+  return context.keyPrefix + LOCK_FENCE_KEY_SEGMENT + encodeDocId(docId);
 }
 
-function getChannelName(docId: string): string {
-  return LOCK_CHANNEL_PREFIX + encodeDocId(docId);
+function getChannelName(context: LeaseContext, docId: string): string {
+  return context.keyPrefix + LOCK_CHANNEL_SEGMENT + encodeDocId(docId);
 }
 
-function getWebLockName(docId: string): string {
-  return LOCK_NAME_PREFIX + encodeDocId(docId);
+function getWebLockName(context: LeaseContext, docId: string): string {
+  return context.keyPrefix + LOCK_NAME_SEGMENT + encodeDocId(docId);
+}
+
+function getHeldLockName(context: LeaseContext, docId: string, peerId: string): string {
+  return `${context.keyPrefix}${HELD_LOCK_NAME_SEGMENT}${encodeDocId(docId)}:${encodeURIComponent(peerId)}`;
 }
 
 /**
  * Represents a peer identifier lease that must be released once the caller
  * finishes emitting operations for the given document version.
  */
-interface ReleaseHandlers {
-  stageRelease: (value: string, version: string) => void;
-  flushRelease: (value: string, version: string) => Promise<void>;
+interface LeaseHandlers {
+  stageRelease: (value: string, version: string, scope?: PeerLeaseScope) => void;
+  flushRelease: (value: string, version: string, scope?: PeerLeaseScope) => Promise<void>;
+  /**
+   * Refreshes the holder heartbeat. Resolves `false` once the lease can no
+   * longer be renewed, which stops further heartbeats.
+   */
+  renew?: (value: string, isActive: () => boolean) => Promise<boolean>;
+  renewIntervalMs?: number;
+  /** Frees resources tied to the lease once its release has been flushed. */
+  dispose?: () => void;
+  /** Ends the lease without caching the ID and records it as burned. */
+  burn?: (value: string) => Promise<void>;
+  /** Records a durably persisted version on the active record. */
+  checkpoint?: (value: string, version: string) => Promise<void>;
 }
 
 export class PeerIdLease {
   readonly value: string;
-  private readonly stageReleaseFn: ReleaseHandlers["stageRelease"];
-  private readonly flushReleaseFn: ReleaseHandlers["flushRelease"];
+  /**
+   * Fencing token issued with this lease. Releases are only accepted while
+   * the shared state still records this epoch for the peer ID.
+   */
+  readonly epoch: number;
+  /**
+   * `false` for fallback leases handed out while storage was full. They are
+   * not recorded in the shared state, and releasing them never returns the
+   * ID to the cache.
+   */
+  readonly reusable: boolean;
+  readonly origin: PeerIdOrigin;
+  /**
+   * The IDs the acquire considered, cached ones first in release order, then
+   * active ones. Empty for fallback leases.
+   */
+  readonly candidates: readonly PeerIdCandidate[];
+  private readonly stageReleaseFn: LeaseHandlers["stageRelease"];
+  private readonly flushReleaseFn: LeaseHandlers["flushRelease"];
+  private readonly renewFn?: LeaseHandlers["renew"];
+  private readonly disposeFn?: LeaseHandlers["dispose"];
+  private readonly burnFn?: LeaseHandlers["burn"];
+  private readonly checkpointFn?: LeaseHandlers["checkpoint"];
+  private heartbeat?: ReturnType<typeof setInterval>;
   private releaseTask?: Promise<void>;
+  private releasedVersion?: string;
   private releaseState: "idle" | "staged" | "flushed" = "idle";
 
-  constructor(value: string, handlers: ReleaseHandlers) {
+  constructor(
+    value: string,
+    handlers: LeaseHandlers,
+    epoch = 0,
+    reusable = true,
+    acquisition?: { origin: PeerIdOrigin; candidates: readonly PeerIdCandidate[] },
+  ) {
     if (!isNonEmptyString(value)) {
       throw new TypeError("PeerIdLease requires a non-empty peer ID value");
     }
 
     this.value = value;
+    this.epoch = epoch;
+    this.reusable = reusable;
+    this.origin = acquisition?.origin ?? (reusable ? "generated" : "fallback");
+    this.candidates = acquisition?.candidates ?? [];
     this.stageReleaseFn = handlers.stageRelease;
     this.flushReleaseFn = handlers.flushRelease;
+    this.renewFn = handlers.renew;
+    this.disposeFn = handlers.dispose;
+    this.burnFn = handlers.burn;
+    this.checkpointFn = handlers.checkpoint;
+    this.startHeartbeat(handlers.renewIntervalMs);
   }
 
   /**
    * Returns the peer identifier to the shared cache after confirming the
-   * caller's document version. Subsequent calls reuse the same release promise
-   * so callers can fire-and-forget during lifecycle events and `await` later if
-   * desired.
+   * caller's document version. Subsequent calls with the same version reuse the
+   * same release promise so callers can fire-and-forget during lifecycle events
+   * and `await` later if desired; a different version rejects with
+   * `PeerLeaseDoubleReleaseError`. The ID is cached with the scope given at
+   * acquire time unless `options.scope` replaces it.
    */
-  async release(version: string): Promise<void> {
+  async release(version: string, options: ReleasePeerIdOptions = {}): Promise<void> {
     if (!isNonEmptyString(version)) {
       throw new TypeError("release expects a non-empty version string");
     }
 
+    const { scope } = options;
+    if (scope !== undefined && !isScope(scope)) {
+      throw new TypeError("release expects options.scope to be an object of JSON primitives");
+    }
+
     if (this.releaseTask) {
+      if (version !== this.releasedVersion) {
+        throw new PeerLeaseDoubleReleaseError(this.value);
+      }
       return this.releaseTask;
     }
 
-    this.stageReleaseFn(this.value, version);
+    this.stageReleaseFn(this.value, version, scope);
     this.releaseState = "staged";
+    this.releasedVersion = version;
+
+    // The heartbeat keeps running until the flush settles so a failed release
+    // leaves the lease renewed; renewals are skipped while it is staged.
+    this.releaseTask = (async () => {
+      try {
+        await this.flushReleaseFn(this.value, version, scope);
+        this.releaseState = "flushed";
+        this.stopHeartbeat();
+        this.disposeFn?.();
+      } catch (error) {
+        this.releaseTask = undefined;
+        this.releaseState = "idle";
+        if (error instanceof PeerLeaseStaleLeaseError) {
+          // Another holder owns the ID now; retrying cannot succeed.
+          this.stopHeartbeat();
+          this.disposeFn?.();
+        }
+        throw error;
+      }
+    })();
+
+    await this.releaseTask;
+  }
+
+  /**
+   * Ends the lease because its ID turned out to collide with ops authored
+   * elsewhere (e.g. after storage was wiped). The ID is not cached and is
+   * never generated again for this document. Later `release` calls reject
+   * with `PeerLeaseDoubleReleaseError`.
+   */
+  async burn(): Promise<void> {
+    if (this.releaseTask) {
+      return this.releaseTask;
+    }
 
+    this.releaseState = "staged";
     this.releaseTask = (async () => {
       try {
-        await this.flushReleaseFn(this.value, version);
+        await this.burnFn?.(this.value);
         this.releaseState = "flushed";
+        this.stopHeartbeat();
+        this.disposeFn?.();
       } catch (error) {
         this.releaseTask = undefined;
         this.releaseState = "idle";
@@ -154,324 +740,1625 @@ export class PeerIdLease {
       }
     })();
 
-    await this.releaseTask;
+    await this.releaseTask;
+  }
+
+  /**
+   * Records `version` as durably persisted, e.g. right after the document was
+   * saved. If this holder then crashes, the expired lease returns the ID to
+   * the cache at `version` instead of dropping it. Ignored once the lease is
+   * released; rejects with `PeerLeaseStaleLeaseError` if it was superseded.
+   */
+  async checkpoint(version: string): Promise<void> {
+    if (!isNonEmptyString(version)) {
+      throw new TypeError("checkpoint expects a non-empty version string");
+    }
+
+    if (this.isReleased()) {
+      return;
+    }
+
+    await this.checkpointFn?.(this.value, version);
+  }
+
+  isReleased(): boolean {
+    return this.releaseState !== "idle";
+  }
+
+  private startHeartbeat(intervalMs: number | undefined): void {
+    if (!this.renewFn || intervalMs === undefined || !(intervalMs > 0)) {
+      return;
+    }
+
+    this.heartbeat = setInterval(() => {
+      void this.renew();
+    }, intervalMs);
+    unrefHandle(this.heartbeat);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat !== undefined) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+    }
+  }
+
+  private async renew(): Promise<void> {
+    if (!this.renewFn || this.isReleased()) {
+      return;
+    }
+
+    try {
+      const renewed = await this.renewFn(this.value, () => !this.isReleased());
+      if (!renewed) {
+        this.stopHeartbeat();
+        if (!this.isReleased()) {
+          // Superseded by another holder; a release now only rejects.
+          this.disposeFn?.();
+        }
+      }
+    } catch {
+      // Contention or a transient storage failure; try again on the next tick.
+    }
+  }
+}
+
+/**
+ * Acquires a peer identifier from the lease state owned by `context`. See
+ * `acquirePeerId` for the comparator contract.
+ */
+export async function acquireLease(
+  context: LeaseContext,
+  docId: string,
+  genFn: () => string,
+  version: string,
+  cmpVersion: (a: string, b: string, peerId?: string) => number | undefined,
+  options: AcquirePeerIdOptions = {},
+): Promise<PeerIdLease> {
+  const request = { docId, genFn, version, cmpVersion };
+  validateAcquireRequest(request, "acquirePeerId");
+  const acquireOptions = validateAcquireOptions(options, "acquirePeerId");
+
+  throwIfAborted(acquireOptions.signal);
+  await migrateLegacyStateOnce(context);
+
+  const [lease] = await acquireDocLeases(context, docId, [request], acquireOptions);
+  return lease;
+}
+
+/**
+ * Acquires one lease per request. Requests are grouped by document so each
+ * document takes its mutex and reads and writes its state once; documents are
+ * processed concurrently. If any document fails, every lease already acquired
+ * is released at its requested version and the first failure is rethrown.
+ */
+export async function acquireLeases(
+  context: LeaseContext,
+  requests: readonly AcquirePeerIdRequest[],
+  options: AcquirePeerIdOptions = {},
+): Promise<PeerIdLease[]> {
+  if (!Array.isArray(requests)) {
+    throw new TypeError("acquirePeerIds expects an array of requests");
+  }
+
+  for (const request of requests) {
+    validateAcquireRequest(request, "acquirePeerIds");
+  }
+  const acquireOptions = validateAcquireOptions(options, "acquirePeerIds");
+
+  throwIfAborted(acquireOptions.signal);
+  if (requests.length === 0) {
+    return [];
+  }
+  await migrateLegacyStateOnce(context);
+
+  const groups = new Map<string, number[]>();
+  requests.forEach((request, index) => {
+    const indices = groups.get(request.docId);
+    if (indices) {
+      indices.push(index);
+    } else {
+      groups.set(request.docId, [index]);
+    }
+  });
+
+  const settled = await Promise.allSettled(
+    Array.from(groups, ([docId, indices]) =>
+      acquireDocLeases(
+        context,
+        docId,
+        indices.map((index) => requests[index]),
+        acquireOptions,
+      ),
+    ),
+  );
+
+  const leases: PeerIdLease[] = [];
+  let failure: PromiseRejectedResult | undefined;
+  Array.from(groups.values()).forEach((indices, groupIndex) => {
+    const result = settled[groupIndex];
+    if (result.status === "rejected") {
+      failure ??= result;
+      return;
+    }
+    indices.forEach((requestIndex, position) => {
+      leases[requestIndex] = result.value[position];
+    });
+  });
+
+  if (failure) {
+    // The documents never advanced past their requested versions, so a
+    // reused ID goes back to the cache at the version it was taken at. A
+    // generated ID is cached too: it never authored anything, so it is as
+    // safe to reuse as any other cached ID.
+    await Promise.allSettled(
+      requests.map((request, index) => leases[index]?.release(request.version)),
+    );
+    throw failure.reason;
+  }
+  return leases;
+}
+
+/**
+ * Acquires a lease for each of `requests`, all targeting `docId`. With
+ * `waitForReleaseMs`, attempts that could only reuse an ID another holder
+ * still uses are retried whenever a release is observed, until the deadline.
+ */
+async function acquireDocLeases(
+  context: LeaseContext,
+  docId: string,
+  requests: readonly AcquirePeerIdRequest[],
+  options: AcquirePeerIdOptions,
+): Promise<PeerIdLease[]> {
+  const {
+    waitForReleaseMs = 0,
+    selection = context.selection,
+    scope,
+    matchScope = scopesEqual,
+    ...runOptions
+  } = options;
+  const reuse: ReuseOptions = { selection, scope, matchScope };
+  if (!(waitForReleaseMs > 0)) {
+    const attempt = await tryAcquireDocLeases(context, docId, requests, {
+      ...runOptions,
+      ...reuse,
+      canWait: false,
+    });
+    return attempt.leases;
+  }
+
+  const deadline = Date.now() + waitForReleaseMs;
+  // Subscribe before the first read so a release landing in between counts.
+  const watcher = new ReleaseWatcher(context, docId);
+  try {
+    while (true) {
+      const canWait = Date.now() < deadline;
+      const attempt = await tryAcquireDocLeases(context, docId, requests, {
+        ...runOptions,
+        ...reuse,
+        canWait,
+      });
+      if (attempt.leases.length > 0 || !canWait) {
+        return attempt.leases;
+      }
+      await watcher.wait(attempt.awaited, deadline, runOptions.signal);
+    }
+  } finally {
+    watcher.close();
+  }
+}
+
+/** How an acquire picks among and records the IDs it may reuse. */
+interface ReuseOptions {
+  selection: PeerIdSelectionStrategy;
+  scope: PeerLeaseScope | undefined;
+  matchScope: PeerLeaseScopeMatcher;
+}
+
+/**
+ * Acquires a lease for each of `requests` in a single critical section. Later
+ * requests never receive an ID handed to an earlier one because it is
+ * already recorded as active. With `canWait`, nothing is acquired when a
+ * request could only reuse an active ID; those IDs are reported as `awaited`.
+ */
+async function tryAcquireDocLeases(
+  context: LeaseContext,
+  docId: string,
+  requests: readonly AcquirePeerIdRequest[],
+  options: MutexRunOptions & ReuseOptions & { canWait: boolean },
+): Promise<{ leases: PeerIdLease[]; awaited: ReadonlySet<string> }> {
+  const { selection, scope, matchScope, canWait, ...runOptions } = options;
+  const inScope = (cached: PeerLeaseScope | undefined): boolean => matchScope(cached, scope);
+  const { locks } = context;
+  const claimed: Array<HeldWebLock | undefined> = [];
+  let awaited: ReadonlySet<string> = new Set();
+  // IDs recorded in the state as read, so a fallback lease can avoid them.
+  let known: Set<string> | undefined;
+
+  let acquired: Array<{ peerId: string; epoch: number; reused: boolean; candidates: PeerIdCandidate[] }>;
+  try {
+    acquired = await withState(context, docId, async (state, events) => {
+      known = collectKnownPeerIds(state);
+      if (locks) {
+        await reclaimOrphanedLeases(docId, state, locks, events);
+      }
+
+      if (canWait) {
+        awaited = findAwaitedPeerIds(state, requests, inScope);
+        if (awaited.size > 0) {
+          return [];
+        }
+      }
+
+      const results: typeof acquired = [];
+      for (const [index, request] of requests.entries()) {
+        // Takes the per-lease Web Lock inside the critical section so no other
+        // tab can observe the active record before its holder lock exists.
+        const claim = async (id: string): Promise<boolean> => {
+          if (!locks) {
+            return true;
+          }
+
+          const held = await holdWebLock(locks, getHeldLockName(context, docId, id));
+          if (held) {
+            claimed[index] = held;
+          }
+          return held !== null;
+        };
+
+        const peerId = await selectPeerId(state, request, selection, inScope, claim);
+        const now = Date.now();
+        state.epoch += 1;
+        state.active[peerId.value] = {
+          leasedAt: now,
+          version: request.version,
+          heartbeatAt: now,
+          expiresAt: now + context.timings.leaseTtlMs,
+          epoch: state.epoch,
+        };
+        const heldLock = claimed[index];
+        if (heldLock) {
+          state.active[peerId.value].heldLock = heldLock.name;
+        }
+        if (scope !== undefined) {
+          state.active[peerId.value].scope = scope;
+        }
+        events.push({
+          type: "acquired",
+          docId,
+          peerId: peerId.value,
+          epoch: state.epoch,
+          version: request.version,
+          reused: peerId.reused,
+        });
+        results.push({
+          peerId: peerId.value,
+          epoch: state.epoch,
+          reused: peerId.reused,
+          candidates: peerId.candidates,
+        });
+      }
+      return results;
+    }, runOptions);
+  } catch (error) {
+    for (const held of claimed) {
+      held?.release();
+    }
+
+    if (isQuotaExceededError(error)) {
+      if (!known) {
+        // Without the state no ID can be vetted against other holders.
+        throw toQuotaError(error);
+      }
+      const used = known;
+      const leases = requests.map((request) => createFallbackLease(request.genFn, used));
+      for (const [index, lease] of leases.entries()) {
+        context.events.emit({
+          type: "fallback",
+          docId,
+          peerId: lease.value,
+          version: requests[index].version,
+        });
+      }
+      return { leases, awaited };
+    }
+    throw error;
+  }
+
+  const leases = acquired.map(({ peerId, epoch, reused, candidates }, index) => {
+    const handlers = createLeaseHandlers(context, docId, {
+      version: requests[index].version,
+      epoch,
+      heldLock: claimed[index],
+      scope,
+    });
+    return new PeerIdLease(peerId, handlers, epoch, true, {
+      origin: reused ? "reused" : "generated",
+      candidates,
+    });
+  });
+  return { leases, awaited };
+}
+
+/**
+ * Returns the active IDs worth waiting for: those some request could reuse
+ * once released, when that request has no reusable cached ID. Only reads the
+ * state, so giving up on the wait leaves it exactly as found.
+ */
+function findAwaitedPeerIds(
+  state: LeaseState,
+  requests: readonly AcquirePeerIdRequest[],
+  inScope: (cached: PeerLeaseScope | undefined) => boolean,
+): Set<string> {
+  const awaited = new Set<string>();
+  for (const request of requests) {
+    if (
+      state.available.some(
+        (entry) => inScope(entry.scope) && canReuseAt(request, entry.version, entry.id),
+      )
+    ) {
+      continue;
+    }
+
+    for (const [peerId, info] of Object.entries(state.active)) {
+      if (inScope(info.scope) && canReuseAt(request, info.version, peerId)) {
+        awaited.add(peerId);
+      }
+    }
+  }
+  return awaited;
+}
+
+/** Whether `request` may reuse `peerId`, last used at document version `version`. */
+function canReuseAt(request: AcquirePeerIdRequest, version: string, peerId: string): boolean {
+  const cmp = request.cmpVersion(request.version, version, peerId);
+  return cmp != null && cmp >= 0;
+}
+
+const RELEASE_EVENT_TYPES: ReadonlySet<string> = new Set([
+  "released",
+  "stale-reclaimed",
+  "pending-drained",
+  "reset",
+]);
+
+/**
+ * Observes release activity for one document on behalf of a waiting acquire:
+ * lease events from any tab, plus releases staged in the pending journal by a
+ * page that may never get to flush them.
+ */
+class ReleaseWatcher {
+  private readonly context: LeaseContext;
+  private readonly docId: string;
+  private readonly unsubscribe: () => void;
+  private observed = false;
+  private wake?: () => void;
+
+  constructor(context: LeaseContext, docId: string) {
+    this.context = context;
+    this.docId = docId;
+    this.unsubscribe = context.events.subscribe(docId, (event) => {
+      if (RELEASE_EVENT_TYPES.has(event.type)) {
+        this.observed = true;
+        this.wake?.();
+      }
+    });
+  }
+
+  /**
+   * Resolves once a release was observed since the previous call, one of
+   * `peerIds` is staged for release, or `deadline` passes. Rejects with
+   * `PeerLeaseAbortError` when `signal` fires.
+   */
+  async wait(peerIds: ReadonlySet<string>, deadline: number, signal?: AbortSignal): Promise<void> {
+    while (!this.observed && !(await this.isStaged(peerIds)) && Date.now() < deadline) {
+      throwIfAborted(signal);
+      const delay = Math.min(this.context.timings.retryDelayMs, deadline - Date.now());
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", done);
+          this.wake = undefined;
+          resolve();
+        };
+        const timer = setTimeout(done, Math.max(0, delay));
+        signal?.addEventListener("abort", done);
+        this.wake = done;
+      });
+    }
+
+    throwIfAborted(signal);
+    this.observed = false;
+  }
+
+  close(): void {
+    this.wake?.();
+    this.unsubscribe();
+  }
+
+  private async isStaged(peerIds: ReadonlySet<string>): Promise<boolean> {
+    try {
+      const { entries } = await readPendingJournal(this.context, this.docId);
+      return entries.some((entry) => peerIds.has(entry.id));
+    } catch {
+      // An unreadable journal just means waiting for the next poll or event.
+      return false;
+    }
+  }
+}
+
+/**
+ * Picks an in-scope cached ID released at an older version than the request,
+ * ranked by `selection`, or else generates a fresh one, and claims it through
+ * `claim`. Reports what became of every cached and active ID.
+ */
+async function selectPeerId(
+  state: LeaseState,
+  request: AcquirePeerIdRequest,
+  selection: PeerIdSelectionStrategy,
+  inScope: (cached: PeerLeaseScope | undefined) => boolean,
+  claim: (id: string) => Promise<boolean>,
+): Promise<{ value: string; reused: boolean; candidates: PeerIdCandidate[] }> {
+  const { genFn, version, cmpVersion } = request;
+  const cached = [...state.available];
+  const outcomes = new Map<CachedPeerId, PeerIdCandidateOutcome>();
+  const isReusable = (entry: CachedPeerId): boolean => {
+    if (!inScope(entry.scope)) {
+      outcomes.set(entry, "out-of-scope");
+      return false;
+    }
+
+    // Only recycle peer IDs produced by a strictly older document version.
+    const cmp = cmpVersion(version, entry.version, entry.id);
+    if (cmp == null) {
+      entry.misses = (entry.misses ?? 0) + 1;
+      outcomes.set(entry, "unordered");
+      return false;
+    }
+    delete entry.misses;
+    outcomes.set(entry, cmp >= 0 ? "outranked" : "newer-version");
+    return cmp >= 0;
+  };
+  const report = (): PeerIdCandidate[] => [
+    ...cached.map((entry) => ({
+      peerId: entry.id,
+      version: entry.version,
+      outcome: outcomes.get(entry) ?? "skipped",
+    })),
+    ...Object.entries(state.active).map(([peerId, info]) => ({
+      peerId,
+      version: info.version,
+      outcome: "in-use" as const,
+    })),
+  ];
+  const tryClaim = async (entry: CachedPeerId): Promise<boolean> => {
+    if (!(await claim(entry.id))) {
+      outcomes.set(entry, "held-elsewhere");
+      return false;
+    }
+    outcomes.set(entry, "reused");
+    state.available.splice(state.available.indexOf(entry), 1);
+    return true;
+  };
+
+  if (selection === "first-match") {
+    for (const entry of cached) {
+      if (isReusable(entry) && (await tryClaim(entry))) {
+        return { value: entry.id, reused: true, candidates: report() };
+      }
+    }
+  } else {
+    const ranked = rankCandidates(cached.filter(isReusable), request, selection);
+    for (const entry of cached) {
+      if (outcomes.get(entry) === "outranked" && !ranked.includes(entry)) {
+        outcomes.set(entry, "ruled-out");
+      }
+    }
+    for (const entry of ranked) {
+      if (await tryClaim(entry)) {
+        return { value: entry.id, reused: true, candidates: report() };
+      }
+    }
+  }
+
+  // Computed before the fresh ID is recorded as active.
+  const candidates = report();
+
+  const used = collectKnownPeerIds(state);
+  for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt += 1) {
+    const candidate = generateUniquePeerId(genFn, used);
+    if (await claim(candidate)) {
+      return { value: candidate, reused: false, candidates };
+    }
+    used.add(candidate);
+  }
+
+  throw new PeerLeaseGeneratorError("Failed to acquire a peer ID");
+}
+
+/** Every ID the state records as cached, active or burned. */
+function collectKnownPeerIds(state: LeaseState): Set<string> {
+  const known = new Set<string>();
+  for (const entry of state.available) {
+    known.add(entry.id);
+  }
+  for (const id of Object.keys(state.active)) {
+    known.add(id);
+  }
+  for (const id of state.burned ?? []) {
+    known.add(id);
+  }
+  return known;
+}
+
+/** Orders reusable cached IDs best first; `candidates` is in release order. */
+function rankCandidates(
+  candidates: CachedPeerId[],
+  request: AcquirePeerIdRequest,
+  selection: Exclude<PeerIdSelectionStrategy, "first-match">,
+): CachedPeerId[] {
+  if (selection === "most-recently-released") {
+    // Ties (or records without timestamps) fall back to release order.
+    return candidates
+      .map((entry, index) => ({ entry, index }))
+      .sort(
+        (left, right) =>
+          (right.entry.releasedAt ?? 0) - (left.entry.releasedAt ?? 0) || right.index - left.index,
+      )
+      .map(({ entry }) => entry);
+  }
+
+  if (selection === "newest-version") {
+    // Comparators may only order some versions, so repeatedly take an ID no
+    // other remaining ID is known to be newer than instead of sorting. No
+    // single peer's counter decides this, so no peer ID is passed.
+    const ranked: CachedPeerId[] = [];
+    const remaining = [...candidates];
+    while (remaining.length > 0) {
+      let best = 0;
+      for (let index = 1; index < remaining.length; index += 1) {
+        const cmp = request.cmpVersion(remaining[index].version, remaining[best].version);
+        if (cmp != null && cmp > 0) {
+          best = index;
+        }
+      }
+      ranked.push(...remaining.splice(best, 1));
+    }
+    return ranked;
+  }
+
+  const scored: Array<{ entry: CachedPeerId; score: number }> = [];
+  for (const entry of candidates) {
+    const score = selection(toCachedEntry(entry), request);
+    if (typeof score === "number" && !Number.isNaN(score)) {
+      scored.push({ entry, score });
+    }
+  }
+  // Array#sort is stable, so ties keep release order.
+  return scored.sort((left, right) => right.score - left.score).map(({ entry }) => entry);
+}
+
+function isSelectionStrategy(value: unknown): value is PeerIdSelectionStrategy {
+  return typeof value === "function" || (typeof value === "string" && SELECTION_STRATEGIES.has(value));
+}
+
+function validateAcquireRequest(request: AcquirePeerIdRequest, caller: string): void {
+  if (!request || typeof request !== "object") {
+    throw new TypeError(`${caller} expects request objects`);
+  }
+
+  if (!isNonEmptyString(request.docId)) {
+    throw new TypeError(`${caller} expects a non-empty docId string`);
+  }
+
+  if (typeof request.genFn !== "function") {
+    throw new TypeError(`${caller} expects a generator function`);
+  }
+
+  if (!isNonEmptyString(request.version)) {
+    throw new TypeError(`${caller} expects a non-empty version string`);
+  }
+
+  if (typeof request.cmpVersion !== "function") {
+    throw new TypeError(`${caller} expects a comparator function`);
+  }
+}
+
+function validateAcquireOptions(
+  options: AcquirePeerIdOptions | undefined,
+  caller: string,
+): AcquirePeerIdOptions {
+  const { signal, timeoutMs, waitForReleaseMs, selection, scope, matchScope } = options ?? {};
+  if (signal !== undefined && (typeof signal !== "object" || signal === null || typeof signal.aborted !== "boolean")) {
+    throw new TypeError(`${caller} expects options.signal to be an AbortSignal`);
+  }
+
+  if (timeoutMs !== undefined && (!isFiniteNumber(timeoutMs) || timeoutMs < 0)) {
+    throw new TypeError(`${caller} expects options.timeoutMs to be a non-negative number`);
+  }
+
+  if (waitForReleaseMs !== undefined && (!isFiniteNumber(waitForReleaseMs) || waitForReleaseMs < 0)) {
+    throw new TypeError(`${caller} expects options.waitForReleaseMs to be a non-negative number`);
+  }
+
+  if (selection !== undefined && !isSelectionStrategy(selection)) {
+    throw new TypeError(`${caller} expects options.selection to be a known strategy or a scorer function`);
+  }
+
+  if (scope !== undefined && !isScope(scope)) {
+    throw new TypeError(`${caller} expects options.scope to be an object of JSON primitives`);
+  }
+
+  if (matchScope !== undefined && typeof matchScope !== "function") {
+    throw new TypeError(`${caller} expects options.matchScope to be a function`);
+  }
+
+  return { signal, timeoutMs, waitForReleaseMs, selection, scope, matchScope };
+}
+
+function isScope(value: unknown): value is PeerLeaseScope {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+
+  return Object.values(value).every(
+    (entry) =>
+      entry === null ||
+      typeof entry === "string" ||
+      typeof entry === "boolean" ||
+      isFiniteNumber(entry),
+  );
+}
+
+/** The default {@link PeerLeaseScopeMatcher}: same keys with the same values. */
+function scopesEqual(
+  cached: PeerLeaseScope | undefined,
+  scope: PeerLeaseScope | undefined,
+): boolean {
+  const left = cached ?? {};
+  const right = scope ?? {};
+  const keys = Object.keys(right);
+  return (
+    Object.keys(left).length === keys.length &&
+    keys.every((key) => Object.hasOwn(left, key) && left[key] === right[key])
+  );
+}
+
+/**
+ * Degraded mode for a full storage: a freshly generated, untracked ID. `used`
+ * holds every ID the state read in the failed critical section records, so
+ * the fallback never repeats an ID another holder has, and grows with each
+ * lease to keep a batch distinct. The price is that this ID is never cached
+ * for reuse.
+ */
+function createFallbackLease(genFn: () => string, used: Set<string>): PeerIdLease {
+  const value = generateUniquePeerId(genFn, used);
+  used.add(value);
+  return new PeerIdLease(value, FALLBACK_LEASE_HANDLERS, 0, false);
+}
+
+const FALLBACK_LEASE_HANDLERS: LeaseHandlers = {
+  stageRelease: () => undefined,
+  flushRelease: async () => undefined,
+};
+
+/**
+ * Subscribes to lease events for `docId` emitted by this context and by other
+ * tabs using the same key prefix. Returns an unsubscribe function.
+ */
+export function subscribeLeaseEvents(
+  context: LeaseContext,
+  docId: string,
+  listener: PeerLeaseEventListener,
+): () => void {
+  if (!isNonEmptyString(docId)) {
+    throw new TypeError("subscribePeerLeaseEvents expects a non-empty docId string");
+  }
+
+  if (typeof listener !== "function") {
+    throw new TypeError("subscribePeerLeaseEvents expects a listener function");
+  }
+
+  return context.events.subscribe(docId, listener);
+}
+
+export async function resetLeaseState(
+  context: LeaseContext,
+  docId?: string,
+): Promise<void> {
+  if (docId !== undefined && !isNonEmptyString(docId)) {
+    throw new TypeError("resetPeerLeaseState expects a non-empty docId string");
+  }
+
+  const { storage } = context;
+  const clearDoc = async (id: string) => {
+    await withDocMutex(context, id, () =>
+      accessStorage(async () => {
+        await context.stateStorage.removeItem(getStateKey(context, id));
+        await context.stateStorage.removeItem(getStateBackupKey(context, id));
+        storage.removeItem(getLockKey(context, id));
+        storage.removeItem(getFenceKey(context, id));
+        storage.removeItem(getPendingKey(context, id));
+        await context.stateStorage.removeItem(getPendingKey(context, id));
+      }),
+    );
+    context.events.emit({ type: "reset", docId: id });
+  };
+
+  if (docId) {
+    await clearDoc(docId);
+    return;
+  }
+
+  // Fold any pre-2.0 global state into its documents first, then flush the
+  // state of every docId encountered during this session. The legacy keys go
+  // too: the lock and fence outlive a migration that found no state.
+  await migrateLegacyStateOnce(context);
+  storage.removeItem(context.keyPrefix + LEGACY_STATE_KEY_SEGMENT);
+  storage.removeItem(context.keyPrefix + LEGACY_LOCK_KEY_SEGMENT);
+  storage.removeItem(context.keyPrefix + LEGACY_FENCE_KEY_SEGMENT);
+
+  const knownDocIds = Array.from(context.mutexes.keys());
+  await Promise.all(knownDocIds.map((id) => clearDoc(id)));
+}
+
+/**
+ * Reads the stored state and pending-release journal for `docId` without
+ * modifying either; expired leases and staged releases are reported as-is.
+ */
+export async function inspectLeaseState(
+  context: LeaseContext,
+  docId: string,
+): Promise<PeerLeaseStateSnapshot> {
+  if (!isNonEmptyString(docId)) {
+    throw new TypeError("inspectPeerLeaseState expects a non-empty docId string");
+  }
+
+  await migrateLegacyStateOnce(context);
+
+  return withDocMutex(context, docId, async () => {
+    // Recovery diagnostics are reported by the next write, not by inspection.
+    const state = await accessStorage(() => readState(context, docId, []));
+    const { entries: pending } = await accessStorage(() => readPendingJournal(context, docId));
+
+    return {
+      docId,
+      epoch: state.epoch,
+      available: state.available.map(toCachedEntry),
+      active: Object.entries(state.active).map(([peerId, info]) => ({ peerId, ...info })),
+      pendingReleases: pending.map(toCachedEntry),
+      burned: [...(state.burned ?? [])],
+    };
+  });
+}
+
+/**
+ * Lists the IDs of every document with stored lease state or staged releases
+ * under this context's key prefix. Requires storage backends that implement
+ * `keys()`.
+ */
+export async function listLeaseDocs(context: LeaseContext): Promise<string[]> {
+  const { storage, stateStorage } = context;
+  if (typeof storage.keys !== "function" || typeof stateStorage.keys !== "function") {
+    throw new TypeError("listPeerLeaseDocs requires storage backends that implement keys()");
+  }
+
+  await migrateLegacyStateOnce(context);
+
+  const statePrefix = context.keyPrefix + STATE_KEY_SEGMENT;
+  const pendingPrefix = context.keyPrefix + PENDING_KEY_SEGMENT;
+  const docIds = new Set<string>();
+  const collect = (keys: string[], prefix: string) => {
+    for (const key of keys) {
+      if (!key.startsWith(prefix)) {
+        continue;
+      }
+
+      const docId = decodeDocId(key.slice(prefix.length));
+      if (docId !== null) {
+        docIds.add(docId);
+      }
+    }
+  };
+
+  const stateKeys = await accessStorage(() => stateStorage.keys!());
+  collect(stateKeys, statePrefix);
+  collect(stateKeys, pendingPrefix);
+  collect(await accessStorage(() => storage.keys!()), pendingPrefix);
+
+  return Array.from(docIds).sort();
+}
+
+function toCachedEntry(entry: CachedPeerId): PeerLeaseCachedEntry {
+  return {
+    peerId: entry.id,
+    version: entry.version,
+    ...(entry.epoch !== undefined ? { epoch: entry.epoch } : {}),
+    ...(entry.releasedAt !== undefined ? { releasedAt: entry.releasedAt } : {}),
+    ...(entry.leasedAt !== undefined ? { leasedAt: entry.leasedAt } : {}),
+    ...(entry.misses !== undefined ? { unreusableAttempts: entry.misses } : {}),
+    ...(entry.scope !== undefined ? { scope: entry.scope } : {}),
+  };
+}
+
+function toReleaseEntry(
+  id: string,
+  version: string,
+  epoch: number,
+  scope: PeerLeaseScope | undefined,
+): PendingReleaseEntry {
+  return { id, version, epoch, ...(scope !== undefined ? { scope } : {}) };
+}
+
+function createLeaseHandlers(
+  context: LeaseContext,
+  docId: string,
+  lease: { version: string; epoch: number; heldLock?: HeldWebLock; scope?: PeerLeaseScope },
+): LeaseHandlers {
+  const { epoch, heldLock } = lease;
+  let checkpoint: string | undefined;
+  let staging: Promise<void> = Promise.resolve();
+
+  return {
+    renewIntervalMs: context.timings.leaseHeartbeatIntervalMs,
+
+    dispose: heldLock ? () => heldLock.release() : undefined,
+
+    renew: (value: string, isActive: () => boolean) =>
+      withState(context, docId, async (state) => {
+        // A release staged before this critical section was drained above;
+        // never resurrect it.
+        if (!isActive()) {
+          return false;
+        }
+
+        const now = Date.now();
+        const expiresAt = now + context.timings.leaseTtlMs;
+        const info = state.active[value];
+        if (info) {
+          if (!epochMatches(info.epoch, epoch)) {
+            // Our record expired and the ID was re-issued to another holder.
+            return false;
+          }
+          info.heartbeatAt = now;
+          info.expiresAt = expiresAt;
+          return true;
+        }
+
+        // Our record expired while this holder could not run timers (e.g. a
+        // suspended laptop). Nobody else holds the ID, so take it back unless
+        // a newer holder already released it.
+        const cachedIndex = state.available.findIndex((entry) => entry.id === value);
+        if (cachedIndex >= 0) {
+          if (!epochMatches(state.available[cachedIndex].epoch, epoch)) {
+            return false;
+          }
+          state.available.splice(cachedIndex, 1);
+        }
+        state.active[value] = {
+          leasedAt: now,
+          version: lease.version,
+          heartbeatAt: now,
+          expiresAt,
+          epoch,
+        };
+        if (heldLock) {
+          state.active[value].heldLock = heldLock.name;
+        }
+        if (checkpoint !== undefined) {
+          state.active[value].checkpoint = checkpoint;
+        }
+        if (lease.scope !== undefined) {
+          state.active[value].scope = lease.scope;
+        }
+        return true;
+      }),
+
+    checkpoint: async (value: string, version: string) => {
+      const recorded = await withState(context, docId, (state) => {
+        const info = state.active[value];
+        if (!info || !epochMatches(info.epoch, epoch)) {
+          return false;
+        }
+        info.checkpoint = version;
+        return true;
+      });
+
+      if (!recorded) {
+        throw new PeerLeaseStaleLeaseError(value, epoch);
+      }
+      checkpoint = version;
+    },
+
+    burn: async (value: string) => {
+      await withState(context, docId, (state, events) => {
+        const info = state.active[value];
+        if (info && epochMatches(info.epoch, epoch)) {
+          delete state.active[value];
+        }
+        burnPeerId(state, value);
+        events.push({ type: "burned", docId, peerId: value, epoch });
+      });
+    },
+
+    stageRelease: (value: string, version: string, scope = lease.scope) => {
+      if (!isNonEmptyString(value) || !isNonEmptyString(version)) {
+        return;
+      }
+
+      staging = stagePendingRelease(context, docId, toReleaseEntry(value, version, epoch, scope));
+    },
+
+    flushRelease: async (value: string, version: string, scope = lease.scope) => {
+      if (!isNonEmptyString(value) || !isNonEmptyString(version)) {
+        return;
+      }
+
+      const entry = toReleaseEntry(value, version, epoch, scope);
+      // Let the mirrored entry land first so the drain below removes it.
+      await staging;
+      const applied = await withState(
+        context,
+        docId,
+        async (state, events) => {
+          const accepted = applyRelease(state, entry);
+          events.push({
+            type: accepted ? "released" : "release-rejected",
+            docId,
+            peerId: value,
+            epoch,
+            version,
+          });
+          return accepted;
+        },
+        { ownRelease: entry },
+      );
+
+      if (!applied) {
+        throw new PeerLeaseStaleLeaseError(value, epoch);
+      }
+    },
+  };
+}
+
+/**
+ * Runs `mutator` against the document's lease state under the doc mutex and
+ * persists the result. Events the mutator (or the housekeeping around it)
+ * queues are emitted only once the new state is written.
+ */
+async function withState<T>(
+  context: LeaseContext,
+  docId: string,
+  mutator: (state: LeaseState, events: PeerLeaseEventInit[]) => T | Promise<T>,
+  options: WithStateOptions = {},
+): Promise<T> {
+  const { ownRelease, ...runOptions } = options;
+  const events: PeerLeaseEventInit[] = [];
+  const result = await withDocMutex(context, docId, async () => {
+    const state = await accessStorage(() => readState(context, docId, events));
+    const backedUp = backupFingerprint(state);
+    const pending = await accessStorage(() => drainPendingReleases(context, docId, state));
+    queuePendingEvents(docId, pending, events, ownRelease);
+    for (const [peerId, info] of cleanupState(state, Date.now())) {
+      events.push({
+        type: "stale-reclaimed",
+        docId,
+        peerId,
+        epoch: info.epoch,
+        version: info.checkpoint ?? info.version,
+        reason: info.checkpoint === undefined ? "expired" : "checkpointed",
+      });
+    }
+    const mutated = await mutator(state, events);
+    normalizeState(state, context.cache, Date.now());
+    await accessStorage(() => writeState(context, docId, state, backedUp));
+    await accessStorage(() => finalizePendingReleases(context, docId, pending));
+    return mutated;
+  }, runOptions);
+
+  for (const event of events) {
+    context.events.emit(event);
+  }
+  return result;
+}
+
+function queuePendingEvents(
+  docId: string,
+  pending: PendingDrainResult,
+  events: PeerLeaseEventInit[],
+  ownRelease: PendingReleaseEntry | undefined,
+): void {
+  const isOwn = (entry: PendingReleaseEntry) =>
+    ownRelease !== undefined && entry.id === ownRelease.id && entry.epoch === ownRelease.epoch;
+
+  if (pending.corruption !== null) {
+    events.push({
+      type: "state-corrupted",
+      docId,
+      record: "pending",
+      recovery: "discarded",
+      reason: pending.corruption,
+    });
+  }
+
+  const drained = pending.entries.filter(
+    (entry) => !isOwn(entry) && !pending.rejected.includes(entry),
+  );
+  if (drained.length > 0) {
+    events.push({
+      type: "pending-drained",
+      docId,
+      entries: drained.map((entry) => ({
+        peerId: entry.id,
+        version: entry.version,
+        epoch: entry.epoch,
+      })),
+    });
+  }
+
+  for (const entry of pending.rejected) {
+    if (!isOwn(entry)) {
+      events.push({
+        type: "release-rejected",
+        docId,
+        peerId: entry.id,
+        epoch: entry.epoch,
+        version: entry.version,
+      });
+    }
+  }
+}
+
+const legacyMigrations = new WeakMap<LeaseContext, Promise<void>>();
+
+/**
+ * Runs {@link migrateLegacyState} at most once per context; a failed attempt
+ * is retried by the next caller.
+ */
+function migrateLegacyStateOnce(context: LeaseContext): Promise<void> {
+  let migration = legacyMigrations.get(context);
+  if (!migration) {
+    migration = migrateLegacyState(context);
+    legacyMigrations.set(context, migration);
+    migration.catch(() => {
+      legacyMigrations.delete(context);
+    });
+  }
+  return migration;
+}
+
+/**
+ * Moves the pre-2.0 global state into per-document state according to
+ * `context.legacyDocId`, or discards it when no mapping is configured. The
+ * legacy mutex is always taken before document mutexes, never after, so this
+ * cannot deadlock with regular operations.
+ */
+async function migrateLegacyState(context: LeaseContext): Promise<void> {
+  const { storage, keyPrefix } = context;
+  const legacyKey = keyPrefix + LEGACY_STATE_KEY_SEGMENT;
+  if (storage.getItem(legacyKey) === null) {
+    return;
+  }
+
+  await createLegacyMutex(context).runExclusive(async () => {
+    const raw = storage.getItem(legacyKey);
+    if (raw === null) {
+      return;
+    }
+
+    let legacy: LeaseState;
+    try {
+      legacy = parseState(decodeRecord("state", raw));
+    } catch (error) {
+      if (!(error instanceof CorruptRecordError)) {
+        throw error;
+      }
+      legacy = { available: [], active: {}, epoch: 0 };
+    }
+
+    const byDoc = splitLegacyState(legacy, context.legacyDocId);
+    for (const [docId, legacy] of byDoc) {
+      await withState(context, docId, (state) => {
+        mergeLegacyState(state, legacy);
+      });
+    }
+
+    storage.removeItem(legacyKey);
+  });
+
+  storage.removeItem(keyPrefix + LEGACY_FENCE_KEY_SEGMENT);
+}
+
+function splitLegacyState(
+  legacy: LeaseState,
+  mapping: LegacyDocIdMapping | null,
+): Map<string, LeaseState> {
+  const byDoc = new Map<string, LeaseState>();
+  if (mapping === null) {
+    return byDoc;
   }
 
-  isReleased(): boolean {
-    return this.releaseState !== "idle";
+  const stateFor = (peerId: string, version: string): LeaseState | null => {
+    const docId = typeof mapping === "string" ? mapping : mapping({ peerId, version });
+    if (!isNonEmptyString(docId)) {
+      return null;
+    }
+
+    let state = byDoc.get(docId);
+    if (!state) {
+      state = { available: [], active: {}, epoch: 0 };
+      byDoc.set(docId, state);
+    }
+    return state;
+  };
+
+  for (const entry of legacy.available) {
+    stateFor(entry.id, entry.version)?.available.push(entry);
   }
+  for (const [peerId, info] of Object.entries(legacy.active)) {
+    const state = stateFor(peerId, info.version);
+    if (state) {
+      state.active[peerId] = info;
+    }
+  }
+  return byDoc;
 }
 
 /**
- * Acquires a peer identifier that is safe to reuse for a caller operating on
- * the provided document version of the supplied document ID. The comparator
- * must order versions so that a positive result means “left is newer than
- * right”.
+ * Adds legacy entries for peer IDs the document does not track yet. Legacy
+ * active records carry no expiry and fall under the legacy stale cutoff.
  */
-export async function acquirePeerId(
-  docId: string,
-  genFn: () => string,
-  version: string,
-  cmpVersion: (a: string, b: string) => number | undefined,
-): Promise<PeerIdLease> {
-  if (!isNonEmptyString(docId)) {
-    throw new TypeError("acquirePeerId expects a non-empty docId string");
-  }
+function mergeLegacyState(state: LeaseState, legacy: LeaseState): void {
+  const known = new Set([...state.available.map((entry) => entry.id), ...Object.keys(state.active)]);
 
-  if (typeof genFn !== "function") {
-    throw new TypeError("acquirePeerId expects a generator function");
+  for (const entry of legacy.available) {
+    if (!known.has(entry.id)) {
+      state.available.push(entry);
+      known.add(entry.id);
+    }
   }
-
-  if (!isNonEmptyString(version)) {
-    throw new TypeError("acquirePeerId expects a non-empty version string");
+  for (const [peerId, info] of Object.entries(legacy.active)) {
+    if (!known.has(peerId)) {
+      state.active[peerId] = info;
+      known.add(peerId);
+    }
   }
+}
 
-  if (typeof cmpVersion !== "function") {
-    throw new TypeError("acquirePeerId expects a comparator function");
+/**
+ * Runs storage backend calls, reporting their failures as typed peer lease
+ * errors (`storage-unavailable` or `quota-exceeded`).
+ */
+async function accessStorage<T>(operation: () => T | Promise<T>): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    throw toStorageError(error);
   }
+}
 
-  const value = await withState(docId, async (state) => {
-    let peerId: string | undefined;
-
-    for (let index = 0; index < state.available.length; index += 1) {
-      const entry = state.available[index];
-      // Only recycle peer IDs produced by a strictly older document version.
-      const cmp = cmpVersion(version, entry.version);
-      if (cmp != null && cmp >= 0) {
-        peerId = entry.id;
-        state.available.splice(index, 1);
-        break;
-      }
+/**
+ * Reads the document state. A corrupt record is replaced by the
+ * last-known-good backup (or an empty state) and reported through `events`,
+ * so the next write repairs it.
+ */
+async function readState(
+  context: LeaseContext,
+  docId: string,
+  events: PeerLeaseEventInit[],
+): Promise<LeaseState> {
+  const raw = await context.stateStorage.getItem(getStateKey(context, docId));
+  try {
+    return parseState(decodeRecord("state", raw));
+  } catch (error) {
+    if (!(error instanceof CorruptRecordError)) {
+      throw error;
     }
 
-    if (!peerId) {
-      const used = new Set<string>();
-      for (const entry of state.available) {
-        used.add(entry.id);
+    const backup = await readStateBackup(context, docId);
+    if (backup) {
+      // The backup skips heartbeat-only writes, so give every holder a full
+      // TTL to renew before its restored record can expire.
+      const expiresAt = Date.now() + context.timings.leaseTtlMs;
+      for (const info of Object.values(backup.active)) {
+        info.expiresAt = Math.max(info.expiresAt ?? 0, expiresAt);
       }
-      for (const id of Object.keys(state.active)) {
-        used.add(id);
-      }
-      peerId = generateUniquePeerId(genFn, used);
-    }
-
-    if (!isNonEmptyString(peerId)) {
-      throw new Error("Failed to acquire a peer ID");
     }
-
-    state.active[peerId] = {
-      leasedAt: Date.now(),
-      version,
-    };
-    return peerId;
-  });
-
-  return new PeerIdLease(value, createReleaseHandlers(docId));
+    events.push({
+      type: "state-corrupted",
+      docId,
+      record: "state",
+      recovery: backup ? "backup" : "reset",
+      reason: error.message,
+    });
+    return backup ?? { available: [], active: {}, epoch: 0 };
+  }
 }
 
-export async function resetPeerLeaseState(docId?: string): Promise<void> {
-  if (docId !== undefined && !isNonEmptyString(docId)) {
-    throw new TypeError("resetPeerLeaseState expects a non-empty docId string");
+async function readStateBackup(context: LeaseContext, docId: string): Promise<LeaseState | null> {
+  const raw = await context.stateStorage.getItem(getStateBackupKey(context, docId));
+  if (!raw) {
+    return null;
   }
 
-  if (docId) {
-    await withDocMutex(docId, async () => {
-      storage.removeItem(getStateKey(docId));
-      storage.removeItem(getLockKey(docId));
-      storage.removeItem(getFenceKey(docId));
-      storage.removeItem(getPendingKey(docId));
-    });
-    return;
+  try {
+    return parseState(decodeRecord("state", raw));
+  } catch (error) {
+    if (error instanceof CorruptRecordError) {
+      return null;
+    }
+    throw error;
   }
-
-  // Legacy reset: clear original global keys if present and flush
-  // state for any docIds encountered during this session.
-  storage.removeItem("peer-lease:state");
-  storage.removeItem("peer-lease:lock");
-  storage.removeItem("peer-lease:lock:fence");
-
-  const knownDocIds = Array.from(mutexes.keys());
-  await Promise.all(
-    knownDocIds.map((id) =>
-      withDocMutex(id, async () => {
-        storage.removeItem(getStateKey(id));
-        storage.removeItem(getLockKey(id));
-        storage.removeItem(getFenceKey(id));
-        storage.removeItem(getPendingKey(id));
-      }),
-    ),
-  );
 }
 
-function createReleaseHandlers(docId: string): ReleaseHandlers {
-  return {
-    stageRelease: (value: string, version: string) => {
-      if (!isNonEmptyString(value) || !isNonEmptyString(version)) {
-        return;
+function parseState(data: unknown): LeaseState {
+  if (!data || typeof data !== "object") {
+    return { available: [], active: {}, epoch: 0 };
+  }
+
+  const parsed = data as Partial<{
+    available: unknown;
+    active: unknown;
+    epoch: unknown;
+    burned: unknown;
+  }>;
+  const available: CachedPeerId[] = [];
+  if (Array.isArray(parsed.available)) {
+    for (const entry of parsed.available) {
+      if (!entry || typeof entry !== "object") {
+        continue;
       }
 
-      stagePendingRelease(docId, { id: value, version });
-    },
+      const candidate = entry as {
+        id?: unknown;
+        version?: unknown;
+        epoch?: unknown;
+        releasedAt?: unknown;
+        leasedAt?: unknown;
+        misses?: unknown;
+        scope?: unknown;
+      };
+      if (
+        isNonEmptyString(candidate.id) &&
+        isNonEmptyString(candidate.version)
+      ) {
+        available.push({
+          id: candidate.id,
+          version: candidate.version,
+          ...(isFiniteNumber(candidate.epoch) ? { epoch: candidate.epoch } : {}),
+          ...(isFiniteNumber(candidate.releasedAt) ? { releasedAt: candidate.releasedAt } : {}),
+          ...(isFiniteNumber(candidate.leasedAt) ? { leasedAt: candidate.leasedAt } : {}),
+          ...(isFiniteNumber(candidate.misses) ? { misses: candidate.misses } : {}),
+          ...(isScope(candidate.scope) ? { scope: candidate.scope } : {}),
+        });
+      }
+    }
+  }
 
-    flushRelease: async (value: string, version: string) => {
-      if (!isNonEmptyString(value) || !isNonEmptyString(version)) {
-        return;
+  const active: Record<string, ActiveLeaseInfo> = {};
+  if (parsed.active && typeof parsed.active === "object") {
+    for (const [key, value] of Object.entries(
+      parsed.active as Record<string, unknown>,
+    )) {
+      if (!isNonEmptyString(key) || !value || typeof value !== "object") {
+        continue;
       }
 
-      await withState(docId, async (state) => {
-        if (state.active[value] !== undefined) {
-          delete state.active[value];
+      const info = value as {
+        leasedAt?: unknown;
+        version?: unknown;
+        heartbeatAt?: unknown;
+        expiresAt?: unknown;
+        heldLock?: unknown;
+        epoch?: unknown;
+        checkpoint?: unknown;
+        scope?: unknown;
+      };
+      if (
+        isFiniteNumber(info.leasedAt) &&
+        isNonEmptyString(info.version)
+      ) {
+        active[key] = {
+          leasedAt: info.leasedAt,
+          version: info.version,
+        };
+        if (isFiniteNumber(info.heartbeatAt)) {
+          active[key].heartbeatAt = info.heartbeatAt;
         }
-
-        const existingIndex = state.available.findIndex((entry) => entry.id === value);
-        if (existingIndex >= 0) {
-          state.available[existingIndex] = { id: value, version };
-        } else {
-          state.available.push({ id: value, version });
+        if (isFiniteNumber(info.expiresAt)) {
+          active[key].expiresAt = info.expiresAt;
         }
-      });
-    },
-  };
-}
+        if (isNonEmptyString(info.heldLock)) {
+          active[key].heldLock = info.heldLock;
+        }
+        if (isFiniteNumber(info.epoch)) {
+          active[key].epoch = info.epoch;
+        }
+        if (isNonEmptyString(info.checkpoint)) {
+          active[key].checkpoint = info.checkpoint;
+        }
+        if (isScope(info.scope)) {
+          active[key].scope = info.scope;
+        }
+      }
+    }
+  }
 
-async function withState<T>(
-  docId: string,
-  mutator: (state: LeaseState) => T | Promise<T>,
-): Promise<T> {
-  return withDocMutex(docId, async () => {
-    const state = readState(docId);
-    const pending = drainPendingReleases(docId, state);
-    cleanupState(state, Date.now());
-    const result = await mutator(state);
-    normalizeState(state);
-    writeState(docId, state);
-    finalizePendingReleases(docId, pending);
-    return result;
-  });
+  // Never let the counter fall behind an epoch that is still referenced.
+  let epoch = isFiniteNumber(parsed.epoch) ? parsed.epoch : 0;
+  for (const entry of available) {
+    epoch = Math.max(epoch, entry.epoch ?? 0);
+  }
+  for (const info of Object.values(active)) {
+    epoch = Math.max(epoch, info.epoch ?? 0);
+  }
+
+  const burned = Array.isArray(parsed.burned) ? parsed.burned.filter(isNonEmptyString) : [];
+
+  return { available, active, epoch, ...(burned.length > 0 ? { burned } : {}) };
 }
 
-function readState(docId: string): LeaseState {
-  const raw = storage.getItem(getStateKey(docId));
-  if (!raw) {
-    return { available: [], active: {} };
+/**
+ * The state without its heartbeat timestamps. The backup is only rewritten
+ * when this changes, so lease renewals do not double the writes.
+ */
+function backupFingerprint(state: LeaseState): string {
+  const active: Record<string, ActiveLeaseInfo> = {};
+  for (const [peerId, info] of Object.entries(state.active)) {
+    active[peerId] = { ...info, heartbeatAt: undefined, expiresAt: undefined };
   }
+  return JSON.stringify({ ...state, active });
+}
 
-  try {
-    const parsed = JSON.parse(raw) as Partial<{
-      available: unknown;
-      active: unknown;
-    }>;
-    const available: CachedPeerId[] = [];
-    if (Array.isArray(parsed.available)) {
-      for (const entry of parsed.available) {
-        if (!entry || typeof entry !== "object") {
-          continue;
-        }
+/**
+ * Writes the document state, followed by its backup unless the state only
+ * differs from `backedUp` (the fingerprint of the state read in the same
+ * critical section) by heartbeats.
+ */
+async function writeState(
+  context: LeaseContext,
+  docId: string,
+  state: LeaseState,
+  backedUp?: string,
+): Promise<void> {
+  const { stateStorage } = context;
+  if (
+    state.available.length === 0 &&
+    Object.keys(state.active).length === 0 &&
+    !state.burned?.length
+  ) {
+    await stateStorage.removeItem(getStateKey(context, docId));
+    await stateStorage.removeItem(getStateBackupKey(context, docId));
+    return;
+  }
 
-        const candidate = entry as { id?: unknown; version?: unknown };
-        if (
-          isNonEmptyString(candidate.id) &&
-          isNonEmptyString(candidate.version)
-        ) {
-          available.push({ id: candidate.id, version: candidate.version });
-        }
+  const backupKey = getStateBackupKey(context, docId);
+  let encoded = encodeRecord(state);
+  let backupDropped = false;
+  while (true) {
+    try {
+      await stateStorage.setItem(getStateKey(context, docId), encoded);
+      break;
+    } catch (error) {
+      if (!isQuotaExceededError(error)) {
+        throw error;
       }
-    }
-
-    const active: Record<string, ActiveLeaseInfo> = {};
-    if (parsed.active && typeof parsed.active === "object") {
-      for (const [key, value] of Object.entries(
-        parsed.active as Record<string, unknown>,
-      )) {
-        if (!isNonEmptyString(key) || !value || typeof value !== "object") {
-          continue;
-        }
 
-        const info = value as { leasedAt?: unknown; version?: unknown };
-        if (
-          typeof info.leasedAt === "number" &&
-          Number.isFinite(info.leasedAt) &&
-          isNonEmptyString(info.version)
-        ) {
-          active[key] = {
-            leasedAt: info.leasedAt,
-            version: info.version,
-          };
-        }
+      // Free space first by dropping the backup, then by halving the cache
+      // of released IDs, oldest first. Active records are never dropped.
+      if (!backupDropped) {
+        backupDropped = true;
+        await stateStorage.removeItem(backupKey);
+      } else if (state.available.length > 0) {
+        state.available.splice(0, Math.ceil(state.available.length / 2));
+      } else {
+        throw toQuotaError(error);
       }
+      encoded = encodeRecord(state);
     }
-
-    return { available, active };
-  } catch {
-    return { available: [], active: {} };
   }
-}
 
-function writeState(docId: string, state: LeaseState): void {
-  if (state.available.length === 0 && Object.keys(state.active).length === 0) {
-    storage.removeItem(getStateKey(docId));
+  if (!backupDropped && backedUp === backupFingerprint(state)) {
     return;
   }
 
-  storage.setItem(getStateKey(docId), JSON.stringify(state));
+  // The backup is written second so a torn state write leaves the previous
+  // good copy in place. It is optional, so a full storage just skips it.
+  try {
+    await stateStorage.setItem(backupKey, encoded);
+  } catch (error) {
+    if (!isQuotaExceededError(error)) {
+      throw error;
+    }
+    await stateStorage.removeItem(backupKey);
+  }
 }
 
-function stagePendingRelease(docId: string, entry: PendingReleaseEntry): void {
-  const { entries: pending } = readPendingReleases(docId);
-  const dedup = new Map<string, string>();
+/**
+ * Stages a release in the synchronous journal, so it survives a page that is
+ * torn down right after `pagehide`. With a separate `stateStorage` the entry
+ * is mirrored there as well: the synchronous storage may be memory private to
+ * this context (e.g. in a worker), and the mirror lets other contexts apply
+ * the release should this one die before flushing it. The returned promise
+ * settles once the mirror was written and never rejects.
+ */
+function stagePendingRelease(
+  context: LeaseContext,
+  docId: string,
+  entry: PendingReleaseEntry,
+): Promise<void> {
+  const { entries: pending, corruption } = readPendingReleases(context, docId);
+  if (corruption !== null) {
+    context.events.emit({
+      type: "state-corrupted",
+      docId,
+      record: "pending",
+      recovery: "discarded",
+      reason: corruption,
+    });
+  }
+  const dedup = dedupPendingEntries([...pending, entry]);
 
-  for (const item of pending) {
-    if (!item) {
-      continue;
-    }
-    if (isNonEmptyString(item.id) && isNonEmptyString(item.version)) {
-      dedup.set(item.id, item.version);
+  try {
+    writePendingReleases(context, docId, dedup);
+  } catch (error) {
+    // Staging runs inside `pagehide`, where throwing helps nobody. The flush
+    // that follows reports the quota problem if the page survives.
+    if (!isQuotaExceededError(error)) {
+      throw error;
     }
   }
 
-  if (isNonEmptyString(entry.id) && isNonEmptyString(entry.version)) {
-    dedup.set(entry.id, entry.version);
+  if (!context.mirrorsJournal) {
+    return Promise.resolve();
   }
+  return mirrorPendingRelease(context, docId, entry).catch(() => {
+    // The flush that follows still applies the synchronously staged entry.
+  });
+}
 
-  writePendingReleases(
-    docId,
-    Array.from(dedup.entries()).map(([id, version]) => ({ id, version })),
-  );
+async function mirrorPendingRelease(
+  context: LeaseContext,
+  docId: string,
+  entry: PendingReleaseEntry,
+): Promise<void> {
+  const key = getPendingKey(context, docId);
+  const { entries } = parsePendingEntries(await context.stateStorage.getItem(key));
+  await context.stateStorage.setItem(key, encodeRecord(dedupPendingEntries([...entries, entry])));
 }
 
-function readPendingReleases(docId: string): { raw: string | null; entries: PendingReleaseEntry[] } {
-  const raw = storage.getItem(getPendingKey(docId));
-  return { raw, entries: parsePendingEntries(raw) };
+function readPendingReleases(
+  context: LeaseContext,
+  docId: string,
+): { raw: string | null; entries: PendingReleaseEntry[]; corruption: string | null } {
+  const raw = context.storage.getItem(getPendingKey(context, docId));
+  return { raw, ...parsePendingEntries(raw) };
 }
 
-function writePendingReleases(docId: string, entries: PendingReleaseEntry[]): void {
-  if (entries.length === 0) {
-    storage.removeItem(getPendingKey(docId));
-    return;
+/**
+ * Reads the synchronous journal merged with its mirror in `stateStorage`;
+ * for the same peer ID, the synchronous entry wins.
+ */
+async function readPendingJournal(
+  context: LeaseContext,
+  docId: string,
+): Promise<{
+  raw: string | null;
+  mirrorRaw: string | null;
+  entries: PendingReleaseEntry[];
+  corruption: string | null;
+}> {
+  const local = readPendingReleases(context, docId);
+  if (!context.mirrorsJournal) {
+    return { ...local, mirrorRaw: null };
   }
 
-  storage.setItem(getPendingKey(docId), JSON.stringify(entries));
+  const mirrorRaw = await context.stateStorage.getItem(getPendingKey(context, docId));
+  const mirror = parsePendingEntries(mirrorRaw);
+  return {
+    raw: local.raw,
+    mirrorRaw,
+    entries: dedupPendingEntries([...mirror.entries, ...local.entries]),
+    corruption: local.corruption ?? mirror.corruption,
+  };
 }
 
-function drainPendingReleases(docId: string, state: LeaseState): PendingDrainResult {
-  const { raw, entries } = readPendingReleases(docId);
+function writePendingReleases(
+  context: LeaseContext,
+  docId: string,
+  entries: PendingReleaseEntry[],
+): void {
   if (entries.length === 0) {
-    return { snapshot: raw, entries: [] };
+    context.storage.removeItem(getPendingKey(context, docId));
+    return;
   }
 
-  const dedup = new Map<string, string>();
-  for (const entry of entries) {
-    if (!entry) {
-      continue;
-    }
+  context.storage.setItem(getPendingKey(context, docId), encodeRecord(entries));
+}
 
-    if (isNonEmptyString(entry.id) && isNonEmptyString(entry.version)) {
-      dedup.set(entry.id, entry.version);
-    }
+async function drainPendingReleases(
+  context: LeaseContext,
+  docId: string,
+  state: LeaseState,
+): Promise<PendingDrainResult> {
+  const { raw, mirrorRaw, entries, corruption } = await readPendingJournal(context, docId);
+  if (entries.length === 0) {
+    return { snapshot: raw, mirrorSnapshot: mirrorRaw, entries: [], rejected: [], corruption };
   }
 
-  for (const [id, version] of dedup.entries()) {
-    if (state.active[id] !== undefined) {
-      delete state.active[id];
+  const dedup = dedupPendingEntries(entries);
+  const rejected: PendingReleaseEntry[] = [];
+  for (const entry of dedup) {
+    if (!applyRelease(state, entry)) {
+      rejected.push(entry);
     }
-
-    const existingIndex = state.available.findIndex((entry) => entry.id === id);
-    if (existingIndex >= 0) {
-      state.available.splice(existingIndex, 1);
-    }
-
-    state.available.push({ id, version });
   }
 
-  return {
-    snapshot: raw,
-    entries: Array.from(dedup.entries()).map(([id, version]) => ({ id, version })),
-  };
+  // Rejected entries are finalized too so they do not linger in the journal.
+  return { snapshot: raw, mirrorSnapshot: mirrorRaw, entries: dedup, rejected, corruption };
 }
 
-function finalizePendingReleases(docId: string, pending: PendingDrainResult): void {
-  if (pending.entries.length === 0) {
+async function finalizePendingReleases(
+  context: LeaseContext,
+  docId: string,
+  pending: PendingDrainResult,
+): Promise<void> {
+  if (pending.entries.length === 0 && pending.corruption === null) {
     return;
   }
 
-  const key = getPendingKey(docId);
-  const currentRaw = storage.getItem(key);
+  const { storage, stateStorage } = context;
+  const key = getPendingKey(context, docId);
+  const remaining = remainingPendingEntries(storage.getItem(key), pending.snapshot, pending.entries);
+  const mirrorRemaining = context.mirrorsJournal
+    ? remainingPendingEntries(await stateStorage.getItem(key), pending.mirrorSnapshot, pending.entries)
+    : null;
+
+  try {
+    if (remaining) {
+      writePendingReleases(context, docId, remaining);
+    }
+    if (mirrorRemaining) {
+      await (mirrorRemaining.length === 0
+        ? stateStorage.removeItem(key)
+        : stateStorage.setItem(key, encodeRecord(mirrorRemaining)));
+    }
+  } catch (error) {
+    // Leaving the journal as is is safe: re-applying a release is idempotent
+    // and superseded entries are rejected by their epoch.
+    if (!isQuotaExceededError(error)) {
+      throw error;
+    }
+  }
+}
 
+/**
+ * Returns the journal left once the drained `entries` are removed from
+ * `currentRaw`, or `null` when it needs no rewrite. A journal unchanged since
+ * it was drained (`snapshot`) is emptied as a whole, corrupt or not.
+ */
+function remainingPendingEntries(
+  currentRaw: string | null,
+  snapshot: string | null,
+  entries: readonly PendingReleaseEntry[],
+): PendingReleaseEntry[] | null {
   if (currentRaw === null) {
-    return;
+    return null;
   }
 
-  if (pending.snapshot !== null && currentRaw === pending.snapshot) {
-    storage.removeItem(key);
-    return;
+  if (snapshot !== null && currentRaw === snapshot) {
+    return [];
   }
 
-  const remaining = parsePendingEntries(currentRaw);
+  const { entries: remaining } = parsePendingEntries(currentRaw);
   let changed = false;
 
-  for (const entry of pending.entries) {
+  for (const entry of entries) {
     const index = remaining.findIndex(
-      (candidate) => candidate.id === entry.id && candidate.version === entry.version,
+      (candidate) =>
+        candidate.id === entry.id &&
+        candidate.version === entry.version &&
+        candidate.epoch === entry.epoch,
     );
     if (index >= 0) {
       remaining.splice(index, 1);
@@ -479,62 +2366,211 @@ function finalizePendingReleases(docId: string, pending: PendingDrainResult): vo
     }
   }
 
-  if (!changed) {
-    return;
-  }
-
-  writePendingReleases(docId, remaining);
+  return changed ? remaining : null;
 }
 
-function parsePendingEntries(raw: string | null): PendingReleaseEntry[] {
-  if (!raw) {
-    return [];
+/**
+ * A corrupt journal yields no entries plus the reason. Dropping staged
+ * releases is safe: their IDs simply stay active until they expire.
+ */
+function parsePendingEntries(
+  raw: string | null,
+): { entries: PendingReleaseEntry[]; corruption: string | null } {
+  let parsed: unknown;
+  try {
+    parsed = decodeRecord("pending", raw);
+  } catch (error) {
+    if (error instanceof CorruptRecordError) {
+      return { entries: [], corruption: error.message };
+    }
+    throw error;
   }
 
-  try {
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) {
-      return [];
+  if (!Array.isArray(parsed)) {
+    return { entries: [], corruption: null };
+  }
+
+  const entries: PendingReleaseEntry[] = [];
+  for (const item of parsed) {
+    if (!item || typeof item !== "object") {
+      continue;
     }
 
-    const entries: PendingReleaseEntry[] = [];
-    for (const item of parsed) {
-      if (!item || typeof item !== "object") {
-        continue;
-      }
+    const candidate = item as { id?: unknown; version?: unknown; epoch?: unknown; scope?: unknown };
+    if (isNonEmptyString(candidate.id) && isNonEmptyString(candidate.version)) {
+      entries.push({
+        id: candidate.id,
+        version: candidate.version,
+        ...(isFiniteNumber(candidate.epoch) ? { epoch: candidate.epoch } : {}),
+        ...(isScope(candidate.scope) ? { scope: candidate.scope } : {}),
+      });
+    }
+  }
 
-      const candidate = item as { id?: unknown; version?: unknown };
-      if (isNonEmptyString(candidate.id) && isNonEmptyString(candidate.version)) {
-        entries.push({ id: candidate.id, version: candidate.version });
-      }
+  return { entries, corruption: null };
+}
+
+/**
+ * Keeps the last staged release per peer ID, preserving staging order.
+ */
+function dedupPendingEntries(entries: PendingReleaseEntry[]): PendingReleaseEntry[] {
+  const dedup = new Map<string, PendingReleaseEntry>();
+
+  for (const entry of entries) {
+    if (!entry) {
+      continue;
     }
 
-    return entries;
-  } catch {
-    return [];
+    if (isNonEmptyString(entry.id) && isNonEmptyString(entry.version)) {
+      dedup.delete(entry.id);
+      dedup.set(entry.id, entry);
+    }
+  }
+
+  return Array.from(dedup.values());
+}
+
+/**
+ * Moves a released peer ID into the available pool. Returns `false` without
+ * touching the state when the release comes from a superseded holder: the ID
+ * is active, or was released again, under a different epoch.
+ */
+function applyRelease(state: LeaseState, entry: PendingReleaseEntry): boolean {
+  const active = state.active[entry.id];
+  if (active !== undefined && !epochMatches(active.epoch, entry.epoch)) {
+    return false;
   }
+
+  const existingIndex = state.available.findIndex((candidate) => candidate.id === entry.id);
+  if (
+    active === undefined &&
+    existingIndex >= 0 &&
+    !epochMatches(state.available[existingIndex].epoch, entry.epoch)
+  ) {
+    return false;
+  }
+
+  if (state.burned?.includes(entry.id)) {
+    delete state.active[entry.id];
+    return true;
+  }
+
+  // The same release may already have been applied from the pending journal.
+  const leasedAt = active?.leasedAt ?? state.available[existingIndex]?.leasedAt;
+  delete state.active[entry.id];
+  if (existingIndex >= 0) {
+    state.available.splice(existingIndex, 1);
+  }
+
+  state.available.push({
+    id: entry.id,
+    version: entry.version,
+    ...(entry.epoch !== undefined ? { epoch: entry.epoch } : {}),
+    releasedAt: Date.now(),
+    ...(leasedAt !== undefined ? { leasedAt } : {}),
+    ...(entry.scope !== undefined ? { scope: entry.scope } : {}),
+  });
+  return true;
 }
 
-function cleanupState(state: LeaseState, now: number): void {
+/**
+ * Records written before epochs existed match any epoch.
+ */
+function epochMatches(recorded: number | undefined, claimed: number | undefined): boolean {
+  return recorded === undefined || claimed === undefined || recorded === claimed;
+}
+
+/**
+ * Drops malformed and expired active records, returning the expired ones.
+ * Expired records with a checkpoint return their ID to the cache at the
+ * checkpointed version, which the holder had already persisted.
+ */
+function cleanupState(state: LeaseState, now: number): Array<[string, ActiveLeaseInfo]> {
+  const expired: Array<[string, ActiveLeaseInfo]> = [];
   for (const [key, info] of Object.entries(state.active)) {
     if (
       !info ||
-      typeof info.leasedAt !== "number" ||
-      !Number.isFinite(info.leasedAt) ||
+      !isFiniteNumber(info.leasedAt) ||
       !isNonEmptyString(info.version)
     ) {
       delete state.active[key];
       continue;
     }
 
-    if (now - info.leasedAt >= LEASE_STALE_AFTER_MS) {
+    // Holders refresh `expiresAt` with heartbeats; an expired record means the
+    // holder crashed or was frozen for longer than the lease TTL.
+    const expiresAt = isFiniteNumber(info.expiresAt)
+      ? info.expiresAt
+      : info.leasedAt + LEGACY_LEASE_STALE_AFTER_MS;
+    if (now >= expiresAt) {
       delete state.active[key];
+      if (info.checkpoint !== undefined) {
+        state.available.push({
+          id: key,
+          version: info.checkpoint,
+          ...(info.epoch !== undefined ? { epoch: info.epoch } : {}),
+          ...(info.scope !== undefined ? { scope: info.scope } : {}),
+        });
+      }
+      expired.push([key, info]);
+    }
+  }
+  return expired;
+}
+
+/**
+ * Returns active leases whose holder no longer owns its per-lease Web Lock to
+ * the available pool with their last known version. Browsers drop Web Locks
+ * as soon as the holding tab dies, so this detects crashes without waiting
+ * for the lease TTL.
+ */
+async function reclaimOrphanedLeases(
+  docId: string,
+  state: LeaseState,
+  locks: LockManagerLike,
+  events: PeerLeaseEventInit[],
+): Promise<void> {
+  const tracked = Object.entries(state.active).filter(([, info]) => info.heldLock !== undefined);
+  if (tracked.length === 0) {
+    return;
+  }
+
+  let held: Set<string> | null;
+  try {
+    held = await queryHeldWebLocks(locks);
+  } catch {
+    return;
+  }
+
+  if (!held) {
+    return;
+  }
+
+  for (const [id, info] of tracked) {
+    if (held.has(info.heldLock!)) {
+      continue;
     }
+
+    delete state.active[id];
+    state.available.push({
+      id,
+      version: info.checkpoint ?? info.version,
+      ...(info.epoch !== undefined ? { epoch: info.epoch } : {}),
+      ...(info.scope !== undefined ? { scope: info.scope } : {}),
+    });
+    events.push({
+      type: "stale-reclaimed",
+      docId,
+      peerId: id,
+      epoch: info.epoch,
+      version: info.checkpoint ?? info.version,
+      reason: "holder-lost",
+    });
   }
 }
 
-function normalizeState(state: LeaseState): void {
-  const dedup = new Map<string, string>();
+function normalizeState(state: LeaseState, cache: Readonly<PeerIdCachePolicy>, now: number): void {
+  const dedup = new Map<string, CachedPeerId>();
 
   for (const entry of state.available) {
     if (!entry) {
@@ -545,24 +2581,25 @@ function normalizeState(state: LeaseState): void {
       continue;
     }
 
-    if (state.active[entry.id]) {
+    if (state.active[entry.id] || state.burned?.includes(entry.id)) {
+      continue;
+    }
+
+    entry.releasedAt ??= now;
+    if (now - entry.releasedAt > cache.maxAgeMs || (entry.misses ?? 0) >= cache.maxUnreusableAttempts) {
       continue;
     }
 
-    dedup.set(entry.id, entry.version);
+    dedup.set(entry.id, entry);
   }
 
-  state.available = Array.from(dedup.entries()).map(([id, version]) => ({
-    id,
-    version,
-  }));
+  state.available = evictCachedPeerIds(Array.from(dedup.values()), cache);
 
   for (const [key, value] of Object.entries(state.active)) {
     if (
       !isNonEmptyString(key) ||
       !value ||
-      typeof value.leasedAt !== "number" ||
-      !Number.isFinite(value.leasedAt) ||
+      !isFiniteNumber(value.leasedAt) ||
       !isNonEmptyString(value.version)
     ) {
       delete state.active[key];
@@ -570,13 +2607,47 @@ function normalizeState(state: LeaseState): void {
   }
 }
 
+/** Records `peerId` as burned and drops it from the cache. */
+function burnPeerId(state: LeaseState, peerId: string): void {
+  state.available = state.available.filter((entry) => entry.id !== peerId);
+  const burned = (state.burned ?? []).filter((id) => id !== peerId);
+  burned.push(peerId);
+  state.burned = burned.slice(-MAX_BURNED_PEER_IDS);
+}
+
+/**
+ * Trims `available` to `cache.maxEntries`, keeping the survivors in their
+ * original (release) order so the acquire scan still prefers older IDs.
+ */
+function evictCachedPeerIds(
+  available: CachedPeerId[],
+  cache: Readonly<PeerIdCachePolicy>,
+): CachedPeerId[] {
+  const excess = available.length - cache.maxEntries;
+  if (excess <= 0) {
+    return available;
+  }
+
+  const rank = (entry: CachedPeerId) =>
+    cache.eviction === "lru" ? (entry.leasedAt ?? entry.releasedAt ?? 0) : (entry.releasedAt ?? 0);
+  const evicted = new Set(
+    available
+      .map((entry, index) => ({ entry, index }))
+      // Ties fall back to the array order, which is the release order.
+      .sort((left, right) => rank(left.entry) - rank(right.entry) || left.index - right.index)
+      .slice(0, excess)
+      .map(({ entry }) => entry),
+  );
+  return available.filter((entry) => !evicted.has(entry));
+}
+
 function generateUniquePeerId(genFn: () => string, used: Set<string>): string {
   let attempt = 0;
 
   while (attempt < MAX_GENERATION_ATTEMPTS) {
     const candidate = genFn();
     if (!isNonEmptyString(candidate)) {
-      throw new Error("Peer ID generator must return a non-empty string");
+      throw new PeerLeaseGeneratorError("Peer ID generator must return a non-empty string");
     }
 
     if (!used.has(candidate)) {
@@ -586,13 +2657,26 @@ function generateUniquePeerId(genFn: () => string, used: Set<string>): string {
     attempt += 1;
   }
 
-  throw new Error("Peer ID generator produced duplicate values");
+  throw new PeerLeaseGeneratorError();
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
 }
 
 function isNonEmptyString(value: unknown): value is string {
   return typeof value === "string" && value.length > 0;
 }
 
+function decodeDocId(encoded: string): string | null {
+  try {
+    const docId = decodeURIComponent(encoded);
+    return docId.length > 0 ? docId : null;
+  } catch {
+    return null;
+  }
+}
+
 function encodeDocId(docId: string): string {
   return encodeURIComponent(docId);
 }
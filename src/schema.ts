@@ -0,0 +1,130 @@
+import { PeerLeaseError } from "./errors.js";
+
+/**
+ * Persisted records are wrapped in `{ schema, checksum, data }` envelopes.
+ * Records written before envelopes existed are treated as schema 0. Each
+ * migration upgrades a payload by exactly one schema version.
+ */
+export type StoredRecordKind = "state" | "pending";
+
+interface StoredEnvelope {
+  schema: number;
+  /** FNV-1a hash of the serialized `data`; absent on older records. */
+  checksum?: string;
+  data: unknown;
+}
+
+type Migration = (data: unknown) => unknown;
+
+export const CURRENT_SCHEMA_VERSION = 1;
+
+const MIGRATIONS: Record<StoredRecordKind, Record<number, Migration>> = {
+  // 0 → 1: the bare `LeaseState` object moved into the envelope unchanged.
+  state: { 0: (data) => data },
+  // 0 → 1: the bare pending-release array moved into the envelope unchanged.
+  pending: { 0: (data) => data },
+};
+
+/**
+ * Thrown when a record was written by a newer release using a schema this
+ * version cannot read. Surfacing it keeps us from overwriting, and thereby
+ * resetting, state we do not understand.
+ */
+export class UnsupportedSchemaError extends PeerLeaseError {
+  readonly schema: number;
+
+  constructor(kind: StoredRecordKind, schema: number) {
+    super(
+      "unsupported-schema",
+      `Peer lease ${kind} record uses schema ${schema}, newer than the supported schema ${CURRENT_SCHEMA_VERSION}`,
+    );
+    this.name = "UnsupportedSchemaError";
+    this.schema = schema;
+  }
+}
+
+/**
+ * Thrown when a stored record is not valid JSON or fails its checksum, e.g.
+ * after a torn write or manual edits.
+ */
+export class CorruptRecordError extends PeerLeaseError {
+  constructor(kind: StoredRecordKind, reason: string) {
+    super("corrupt-record", `Peer lease ${kind} record is corrupt: ${reason}`);
+    this.name = "CorruptRecordError";
+  }
+}
+
+export function encodeRecord(data: unknown): string {
+  const envelope: StoredEnvelope = {
+    schema: CURRENT_SCHEMA_VERSION,
+    checksum: checksum(JSON.stringify(data)),
+    data,
+  };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Parses a stored record, verifies its checksum and migrates it to the
+ * current schema. Returns `undefined` when the record is missing.
+ */
+export function decodeRecord(kind: StoredRecordKind, raw: string | null): unknown {
+  if (!raw) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new CorruptRecordError(kind, "invalid JSON");
+  }
+
+  const envelope = unwrapEnvelope(parsed);
+  let { schema, data } = envelope;
+  if (schema > CURRENT_SCHEMA_VERSION) {
+    throw new UnsupportedSchemaError(kind, schema);
+  }
+
+  if (envelope.checksum !== undefined && envelope.checksum !== checksum(JSON.stringify(data))) {
+    throw new CorruptRecordError(kind, "checksum mismatch");
+  }
+
+  while (schema < CURRENT_SCHEMA_VERSION) {
+    data = MIGRATIONS[kind][schema](data);
+    schema += 1;
+  }
+
+  return data;
+}
+
+function unwrapEnvelope(parsed: unknown): StoredEnvelope {
+  if (
+    parsed !== null &&
+    typeof parsed === "object" &&
+    !Array.isArray(parsed) &&
+    "schema" in parsed &&
+    "data" in parsed
+  ) {
+    const envelope = parsed as { schema: unknown; checksum?: unknown; data: unknown };
+    const { schema, data } = envelope;
+    if (typeof schema === "number" && Number.isInteger(schema) && schema >= 1) {
+      return {
+        schema,
+        data,
+        ...(typeof envelope.checksum === "string" ? { checksum: envelope.checksum } : {}),
+      };
+    }
+  }
+
+  return { schema: 0, data: parsed };
+}
+
+/** 32-bit FNV-1a over UTF-16 code units, as 8 hex digits. */
+function checksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
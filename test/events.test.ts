@@ -0,0 +1,148 @@
+import { describe, expect, it, vi } from "vitest";
+import { MemoryStorage, createPeerLeaseManager } from "../src/index.js";
+import type { PeerLeaseEvent } from "../src/index.js";
+
+const cmpVersion = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true });
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
+
+describe("subscribePeerLeaseEvents", () => {
+  it("reports acquisitions, releases and resets in order", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const events: PeerLeaseEvent[] = [];
+    const unsubscribe = manager.subscribePeerLeaseEvents("ordered", (event) => {
+      events.push(event);
+    });
+
+    const first = await manager.acquirePeerId("ordered", () => "peer", "1", cmpVersion);
+    await first.release("2");
+    const second = await manager.acquirePeerId("ordered", () => "other", "3", cmpVersion);
+    await second.release("4");
+    await manager.resetPeerLeaseState("ordered");
+
+    expect(events.map((event) => event.type)).toEqual([
+      "acquired",
+      "released",
+      "acquired",
+      "released",
+      "reset",
+    ]);
+    expect(events[0]).toMatchObject({ docId: "ordered", peerId: "peer", reused: false, version: "1" });
+    expect(events[1]).toMatchObject({ peerId: "peer", version: "2", epoch: first.epoch });
+    expect(events[2]).toMatchObject({ peerId: "peer", reused: true });
+
+    unsubscribe();
+    const ignored = await manager.acquirePeerId("ordered", () => "late", "5", cmpVersion);
+    expect(events).toHaveLength(5);
+    await ignored.release("6");
+  });
+
+  it("reports releases staged by another context as drained", async () => {
+    const storage = new MemoryStorage();
+    const closing = createPeerLeaseManager({ storage });
+    const opening = createPeerLeaseManager({ storage });
+    const listener = vi.fn();
+    opening.subscribePeerLeaseEvents("drained", listener);
+
+    const lease = await closing.acquirePeerId("drained", () => "staged", "1", cmpVersion);
+    // Simulate a `pagehide` where only the synchronous staging completes.
+    const internals = lease as unknown as { flushReleaseFn: () => Promise<void> };
+    internals.flushReleaseFn = () => new Promise<void>(() => undefined);
+    void lease.release("2");
+
+    const next = await opening.acquirePeerId("drained", () => "fresh", "3", cmpVersion);
+    expect(next.value).toBe("staged");
+
+    const types = listener.mock.calls.map(([event]) => (event as PeerLeaseEvent).type);
+    expect(types).toContain("pending-drained");
+    const drained = listener.mock.calls
+      .map(([event]) => event as PeerLeaseEvent)
+      .find((event) => event.type === "pending-drained");
+    expect(drained).toMatchObject({ entries: [{ peerId: "staged", version: "2" }] });
+
+    await next.release("4");
+  });
+
+  it("delivers events to other contexts through BroadcastChannel", async () => {
+    const storage = new MemoryStorage();
+    const publisher = createPeerLeaseManager({ storage, keyPrefix: "broadcast-test" });
+    const observer = createPeerLeaseManager({ storage, keyPrefix: "broadcast-test" });
+    const received: PeerLeaseEvent[] = [];
+    observer.subscribePeerLeaseEvents("broadcast", (event) => {
+      received.push(event);
+    });
+
+    const lease = await publisher.acquirePeerId("broadcast", () => "remote", "1", cmpVersion);
+    await lease.release("2");
+    await sleep(20);
+
+    expect(received.map((event) => event.type)).toEqual(["acquired", "released"]);
+  });
+
+  it("keeps a document's channel open only while it has listeners", async () => {
+    const open = new Set<string>();
+    class TrackedChannel extends BroadcastChannel {
+      constructor(name: string) {
+        super(name);
+        open.add(name);
+      }
+
+      override close(): void {
+        open.delete(this.name);
+        super.close();
+      }
+    }
+    vi.stubGlobal("BroadcastChannel", TrackedChannel);
+
+    try {
+      const manager = createPeerLeaseManager({ storage: new MemoryStorage(), keyPrefix: "channels-test" });
+      const eventChannels = () => Array.from(open).filter((name) => name.includes(":events:"));
+
+      const unobserved = await manager.acquirePeerId("channels", () => "quiet", "1", cmpVersion);
+      await unobserved.release("2");
+      expect(eventChannels()).toEqual([]);
+
+      const first = manager.subscribePeerLeaseEvents("channels", () => undefined);
+      const second = manager.subscribePeerLeaseEvents("channels", () => undefined);
+      expect(eventChannels()).toHaveLength(1);
+
+      first();
+      expect(eventChannels()).toHaveLength(1);
+      second();
+      expect(eventChannels()).toEqual([]);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("reports a rejected release from a superseded holder", async () => {
+    const storage = new MemoryStorage();
+    const stale = createPeerLeaseManager({
+      storage,
+      timings: { leaseTtlMs: 10, leaseHeartbeatIntervalMs: 60_000 },
+    });
+    const current = createPeerLeaseManager({ storage });
+    const events: PeerLeaseEvent[] = [];
+    current.subscribePeerLeaseEvents("superseded", (event) => {
+      events.push(event);
+    });
+
+    const expired = await stale.acquirePeerId("superseded", () => "contested", "1", cmpVersion);
+    await sleep(20);
+    const holder = await current.acquirePeerId("superseded", () => "contested", "2", cmpVersion);
+
+    // The stale holder's own "acquired" event also arrives over BroadcastChannel.
+    expect(events.find((event) => event.type === "stale-reclaimed")).toMatchObject({
+      peerId: "contested",
+      reason: "expired",
+    });
+
+    await expect(expired.release("3")).rejects.toThrow(/superseded/);
+    await holder.release("4");
+  });
+});
@@ -1,9 +1,26 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { acquirePeerId, resetPeerLeaseState } from "../src/index.js";
+import {
+  MemoryStorage,
+  PeerLeaseAbortError,
+  PeerLeaseDoubleReleaseError,
+  PeerLeaseError,
+  PeerLeaseGeneratorError,
+  PeerLeaseQuotaError,
+  PeerLeaseStaleLeaseError,
+  PeerLeaseStorageError,
+  acquirePeerId,
+  acquirePeerIds,
+  createMutex,
+  createPeerLeaseManager,
+  resetPeerLeaseState,
+  toAsyncStorage,
+} from "../src/index.js";
+import type { PeerIdScorer, PeerLeaseEvent, PeerLeaseScope } from "../src/index.js";
 
 const cmpVersion = (a: string, b: string) =>
   a.localeCompare(b, undefined, { numeric: true });
 const DOC_ID = "doc";
+const unordered = () => undefined;
 const OTHER_DOC_ID = "doc-other";
 
 describe("acquirePeerId", () => {
@@ -109,7 +126,10 @@ describe("acquirePeerId", () => {
       const next = await acquirePeerId(DOC_ID, () => "other", "3", cmpVersion);
       expect(next.value).toBe("flaky");
 
-      await Promise.all([next.release("4"), lease.release("5")]);
+      await next.release("4");
+      // The staged release already handed the ID to `next`, so retrying the
+      // superseded lease must not overwrite its state.
+      await expect(lease.release("5")).rejects.toThrow(/superseded/);
     } finally {
       internals.flushReleaseFn = originalFlush;
     }
@@ -193,3 +213,1242 @@ describe("acquirePeerId", () => {
     ).rejects.toThrow(/non-empty/);
   });
 });
+
+describe("createPeerLeaseManager", () => {
+  it("keeps cached peer IDs isolated per storage backend", async () => {
+    const first = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const second = createPeerLeaseManager({ storage: new MemoryStorage() });
+
+    const lease = await first.acquirePeerId(DOC_ID, () => "shared", "1", cmpVersion);
+    await lease.release("2");
+
+    const other = await second.acquirePeerId(DOC_ID, () => "fresh", "3", cmpVersion);
+    expect(other.value).toBe("fresh");
+
+    const reused = await first.acquirePeerId(DOC_ID, () => "unused", "3", cmpVersion);
+    expect(reused.value).toBe("shared");
+
+    await Promise.all([other.release("4"), reused.release("4")]);
+  });
+
+  it("namespaces keys by prefix when sharing a storage backend", async () => {
+    const storage = new MemoryStorage();
+    const alpha = createPeerLeaseManager({ storage, keyPrefix: "alpha" });
+    const beta = createPeerLeaseManager({ storage, keyPrefix: "beta" });
+
+    const lease = await alpha.acquirePeerId(DOC_ID, () => "alpha-peer", "1", cmpVersion);
+    await lease.release("2");
+
+    expect(storage.getItem(`alpha:state:${DOC_ID}`)).not.toBeNull();
+    expect(storage.getItem(`peer-lease:state:${DOC_ID}`)).toBeNull();
+
+    const other = await beta.acquirePeerId(DOC_ID, () => "beta-peer", "3", cmpVersion);
+    expect(other.value).toBe("beta-peer");
+
+    await other.release("4");
+    await Promise.all([alpha.resetPeerLeaseState(), beta.resetPeerLeaseState()]);
+    expect(storage.getItem(`alpha:state:${DOC_ID}`)).toBeNull();
+  });
+
+  it("builds per-document mutexes through the configured factory and timings", async () => {
+    const mutexFactory = vi.fn(createMutex);
+    const manager = createPeerLeaseManager({
+      storage: new MemoryStorage(),
+      mutexFactory,
+      timings: { acquireTimeoutMs: 250 },
+    });
+
+    const lease = await manager.acquirePeerId(DOC_ID, () => "peer", "1", cmpVersion);
+    await lease.release("2");
+
+    expect(mutexFactory).toHaveBeenCalledTimes(1);
+    expect(mutexFactory.mock.calls[0][0]).toMatchObject({
+      lockKey: `peer-lease:lock:${DOC_ID}`,
+      options: { acquireTimeoutMs: 250, lockTtlMs: 10_000 },
+    });
+  });
+
+  it("rejects invalid configuration", () => {
+    expect(() => createPeerLeaseManager({ keyPrefix: "" })).toThrow(/keyPrefix/);
+    expect(() =>
+      createPeerLeaseManager({ timings: { lockTtlMs: Number.NaN } }),
+    ).toThrow(/timings.lockTtlMs/);
+  });
+});
+
+describe("lease heartbeats", () => {
+  it("keeps live leases active beyond the lease TTL", async () => {
+    const manager = createPeerLeaseManager({
+      storage: new MemoryStorage(),
+      timings: { leaseTtlMs: 40, leaseHeartbeatIntervalMs: 10 },
+    });
+
+    const lease = await manager.acquirePeerId(DOC_ID, () => "live", "1", cmpVersion);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    let counter = 0;
+    const next = await manager.acquirePeerId(
+      DOC_ID,
+      () => (counter++ === 0 ? "live" : "other"),
+      "2",
+      cmpVersion,
+    );
+    expect(next.value).toBe("other");
+
+    await Promise.all([lease.release("3"), next.release("3")]);
+  });
+
+  it("drops the record of a holder that stopped sending heartbeats", async () => {
+    const storage = new MemoryStorage();
+    const crashed = createPeerLeaseManager({
+      storage,
+      timings: { leaseTtlMs: 20, leaseHeartbeatIntervalMs: 60_000 },
+    });
+    const survivor = createPeerLeaseManager({ storage });
+
+    const stale = await crashed.acquirePeerId(DOC_ID, () => "crashed", "1", cmpVersion);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    const next = await survivor.acquirePeerId(DOC_ID, () => "crashed", "2", cmpVersion);
+    expect(next.value).toBe("crashed");
+
+    await next.release("3");
+    expect(stale.isReleased()).toBe(false);
+  });
+});
+
+class FakeLockManager {
+  readonly held = new Set<string>();
+  private readonly waiters = new Map<string, Array<() => void>>();
+
+  async request<T>(
+    name: string,
+    options: { ifAvailable?: boolean },
+    callback: (lock: { name: string; mode: "exclusive" } | null) => T | Promise<T>,
+  ): Promise<T> {
+    while (this.held.has(name)) {
+      if (options.ifAvailable) {
+        return callback(null);
+      }
+      await new Promise<void>((resolve) => {
+        const queue = this.waiters.get(name) ?? [];
+        queue.push(resolve);
+        this.waiters.set(name, queue);
+      });
+    }
+
+    this.held.add(name);
+    try {
+      return await callback({ name, mode: "exclusive" });
+    } finally {
+      this.held.delete(name);
+      this.waiters.get(name)?.shift()?.();
+    }
+  }
+
+  async query() {
+    return {
+      held: Array.from(this.held, (name) => ({ name, mode: "exclusive" as const })),
+      pending: [],
+    };
+  }
+}
+
+describe("held web locks", () => {
+  let locks: FakeLockManager;
+
+  beforeEach(() => {
+    locks = new FakeLockManager();
+    vi.stubGlobal("navigator", { locks });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("holds a dedicated Web Lock for the lifetime of a lease", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const lease = await manager.acquirePeerId(DOC_ID, () => "held", "1", cmpVersion);
+
+    expect(locks.held.has(`peer-lease::held:${DOC_ID}:held`)).toBe(true);
+
+    await lease.release("2");
+    expect(locks.held.has(`peer-lease::held:${DOC_ID}:held`)).toBe(false);
+  });
+
+  it("reclaims active leases whose holder lock disappeared", async () => {
+    const storage = new MemoryStorage();
+    const crashed = createPeerLeaseManager({ storage });
+    const survivor = createPeerLeaseManager({ storage });
+
+    await crashed.acquirePeerId(DOC_ID, () => "orphan", "1", cmpVersion);
+    // The browser drops every lock of a tab that crashes.
+    locks.held.delete(`peer-lease::held:${DOC_ID}:orphan`);
+
+    const next = await survivor.acquirePeerId(DOC_ID, () => "fresh", "2", cmpVersion);
+    expect(next.value).toBe("orphan");
+
+    await next.release("3");
+  });
+
+  it("frees the held lock of a superseded lease", async () => {
+    const storage = new MemoryStorage();
+    const timings = { leaseTtlMs: 20, leaseHeartbeatIntervalMs: 60_000 };
+    const stale = createPeerLeaseManager({ storage, timings });
+    const renewing = await stale.acquirePeerId(DOC_ID, () => "renewing", "1", cmpVersion);
+    const releasing = await stale.acquirePeerId(DOC_ID, () => "releasing", "1", cmpVersion);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    // A context without Web Locks re-issues both expired IDs.
+    vi.stubGlobal("navigator", {});
+    const current = createPeerLeaseManager({ storage });
+    const candidates = ["renewing", "releasing"];
+    const holders = [
+      await current.acquirePeerId(DOC_ID, () => candidates.shift()!, "2", cmpVersion),
+      await current.acquirePeerId(DOC_ID, () => candidates.shift()!, "2", cmpVersion),
+    ];
+    expect(holders.map((holder) => holder.value).sort()).toEqual(["releasing", "renewing"]);
+
+    await (renewing as unknown as { renew: () => Promise<void> }).renew();
+    expect(locks.held.has(`peer-lease::held:${DOC_ID}:renewing`)).toBe(false);
+
+    await expect(releasing.release("3")).rejects.toBeInstanceOf(PeerLeaseStaleLeaseError);
+    expect(locks.held.has(`peer-lease::held:${DOC_ID}:releasing`)).toBe(false);
+
+    await Promise.all(holders.map((holder) => holder.release("3")));
+  });
+
+  it("keeps leases whose holder is still alive", async () => {
+    const storage = new MemoryStorage();
+    const first = createPeerLeaseManager({ storage });
+    const second = createPeerLeaseManager({ storage });
+
+    const lease = await first.acquirePeerId(DOC_ID, () => "alive", "1", cmpVersion);
+    const next = await second.acquirePeerId(DOC_ID, () => "fresh", "2", cmpVersion);
+    expect(next.value).toBe("fresh");
+
+    await Promise.all([lease.release("3"), next.release("3")]);
+  });
+});
+
+describe("lease epochs", () => {
+  it("issues increasing epochs for each lease of a document", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+
+    const first = await manager.acquirePeerId(DOC_ID, () => "peer", "1", cmpVersion);
+    await first.release("2");
+    const second = await manager.acquirePeerId(DOC_ID, () => "other", "3", cmpVersion);
+
+    expect(second.value).toBe(first.value);
+    expect(second.epoch).toBeGreaterThan(first.epoch);
+    await second.release("4");
+  });
+
+  it("rejects a late release from a holder whose lease was re-issued", async () => {
+    const storage = new MemoryStorage();
+    const stale = createPeerLeaseManager({
+      storage,
+      timings: { leaseTtlMs: 20, leaseHeartbeatIntervalMs: 60_000 },
+    });
+    const current = createPeerLeaseManager({ storage });
+
+    const expired = await stale.acquirePeerId(DOC_ID, () => "contested", "1", cmpVersion);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    const holder = await current.acquirePeerId(DOC_ID, () => "contested", "2", cmpVersion);
+    expect(holder.value).toBe("contested");
+
+    const rejection = expired.release("9");
+    await expect(rejection).rejects.toThrow(/superseded/);
+    await expect(rejection).rejects.toBeInstanceOf(PeerLeaseStaleLeaseError);
+    await expect(rejection).rejects.toMatchObject({ code: "stale-lease", peerId: "contested" });
+
+    // The holder's record survived, so the ID is still not handed out.
+    const next = await current.acquirePeerId(DOC_ID, () => "fresh", "10", cmpVersion);
+    expect(next.value).toBe("fresh");
+
+    await holder.release("3");
+    const reused = await current.acquirePeerId(DOC_ID, () => "unused", "10", cmpVersion);
+    expect(reused.value).toBe("contested");
+
+    await Promise.all([next.release("11"), reused.release("11")]);
+  });
+});
+
+describe("state inspection", () => {
+  it("reports cached, active and staged peer IDs without changing them", async () => {
+    const storage = new MemoryStorage();
+    const manager = createPeerLeaseManager({ storage });
+
+    const cached = await manager.acquirePeerId(DOC_ID, () => "cached", "1", cmpVersion);
+    await cached.release("2");
+    const active = await manager.acquirePeerId(DOC_ID, () => "active", "1", cmpVersion);
+    const staged = await manager.acquirePeerId(DOC_ID, () => "staged", "1", cmpVersion);
+    const internals = staged as unknown as { flushReleaseFn: () => Promise<void> };
+    internals.flushReleaseFn = () => new Promise<void>(() => undefined);
+    void staged.release("3");
+
+    const snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+
+    expect(snapshot.docId).toBe(DOC_ID);
+    expect(snapshot.epoch).toBe(3);
+    expect(snapshot.available).toEqual([
+      { peerId: "cached", version: "2", epoch: 1, releasedAt: expect.any(Number), leasedAt: expect.any(Number) },
+    ]);
+    expect(snapshot.active.map((entry) => entry.peerId).sort()).toEqual(["active", "staged"]);
+    expect(snapshot.active.find((entry) => entry.peerId === "active")).toMatchObject({
+      version: "1",
+      epoch: 2,
+      leasedAt: expect.any(Number),
+      expiresAt: expect.any(Number),
+    });
+    expect(snapshot.pendingReleases).toEqual([{ peerId: "staged", version: "3", epoch: 3 }]);
+
+    // Inspection must not drain the journal.
+    expect(await manager.inspectPeerLeaseState(DOC_ID)).toEqual(snapshot);
+
+    await active.release("4");
+  });
+
+  it("lists documents with stored state or staged releases", async () => {
+    const storage = new MemoryStorage();
+    const manager = createPeerLeaseManager({ storage });
+    const other = createPeerLeaseManager({ storage, keyPrefix: "other" });
+
+    expect(await manager.listPeerLeaseDocs()).toEqual([]);
+
+    const first = await manager.acquirePeerId("docs/a", () => "a", "1", cmpVersion);
+    const second = await manager.acquirePeerId("docs/b", () => "b", "1", cmpVersion);
+    const foreign = await other.acquirePeerId("docs/c", () => "c", "1", cmpVersion);
+
+    expect(await manager.listPeerLeaseDocs()).toEqual(["docs/a", "docs/b"]);
+
+    await manager.resetPeerLeaseState("docs/b");
+    expect(await manager.listPeerLeaseDocs()).toEqual(["docs/a"]);
+
+    await Promise.all([first.release("2"), second.release("2"), foreign.release("2")]);
+  });
+
+  it("rejects listing when the storage cannot enumerate keys", async () => {
+    const storage = new MemoryStorage();
+    const manager = createPeerLeaseManager({
+      storage: {
+        getItem: (key) => storage.getItem(key),
+        setItem: (key, value) => storage.setItem(key, value),
+        removeItem: (key) => storage.removeItem(key),
+      },
+    });
+
+    await expect(manager.listPeerLeaseDocs()).rejects.toThrow(/keys\(\)/);
+  });
+});
+
+describe("acquire options", () => {
+  const holdMutex = (storage: MemoryStorage) => {
+    storage.setItem(
+      `peer-lease:lock:${DOC_ID}`,
+      JSON.stringify({ token: "elsewhere", expiresAt: Date.now() + 60_000, fence: 1 }),
+    );
+    return () => storage.removeItem(`peer-lease:lock:${DOC_ID}`);
+  };
+
+  it("aborts while waiting for the document mutex without touching state", async () => {
+    const storage = new MemoryStorage();
+    const manager = createPeerLeaseManager({ storage });
+    const releaseMutex = holdMutex(storage);
+    const genFn = vi.fn(() => "never");
+
+    const controller = new AbortController();
+    const pending = manager.acquirePeerId(DOC_ID, genFn, "1", cmpVersion, {
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(pending).rejects.toBeInstanceOf(PeerLeaseAbortError);
+    expect(genFn).not.toHaveBeenCalled();
+
+    releaseMutex();
+    const snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+    expect(snapshot).toMatchObject({ epoch: 0, available: [], active: [], pendingReleases: [] });
+  });
+
+  it("rejects immediately when the signal is already aborted", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+
+    await expect(
+      manager.acquirePeerId(DOC_ID, () => "peer", "1", cmpVersion, { signal: AbortSignal.abort() }),
+    ).rejects.toBeInstanceOf(PeerLeaseAbortError);
+  });
+
+  it("applies a per-call timeout", async () => {
+    const storage = new MemoryStorage();
+    const manager = createPeerLeaseManager({ storage, timings: { acquireTimeoutMs: 60_000 } });
+    const releaseMutex = holdMutex(storage);
+
+    await expect(
+      manager.acquirePeerId(DOC_ID, () => "peer", "1", cmpVersion, { timeoutMs: 20 }),
+    ).rejects.toThrow(/Timed out/);
+
+    releaseMutex();
+  });
+
+  it("rejects invalid options", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+
+    await expect(
+      manager.acquirePeerId(DOC_ID, () => "peer", "1", cmpVersion, { timeoutMs: -1 }),
+    ).rejects.toThrow(TypeError);
+    await expect(
+      manager.acquirePeerId(DOC_ID, () => "peer", "1", cmpVersion, { waitForReleaseMs: Number.NaN }),
+    ).rejects.toThrow(/waitForReleaseMs/);
+  });
+});
+
+describe("peer ID selection", () => {
+  const seed = async (manager: ReturnType<typeof createPeerLeaseManager>) => {
+    const leases = await Promise.all(
+      ["first", "closest", "last"].map((id) =>
+        manager.acquirePeerId(DOC_ID, () => id, "1", cmpVersion),
+      ),
+    );
+    await leases[0].release("3");
+    await leases[1].release("5");
+    await leases[2].release("2");
+  };
+
+  it.each([
+    ["first-match", "first"],
+    ["newest-version", "closest"],
+    ["most-recently-released", "last"],
+  ] as const)("%s reuses %s", async (selection, expected) => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage(), selection });
+    await seed(manager);
+
+    const lease = await manager.acquirePeerId(DOC_ID, () => "fresh", "6", cmpVersion);
+
+    expect(lease.value).toBe(expected);
+    await lease.release("7");
+  });
+
+  it("skips IDs released at a newer version than requested", async () => {
+    const manager = createPeerLeaseManager({
+      storage: new MemoryStorage(),
+      selection: "newest-version",
+    });
+    await seed(manager);
+
+    const lease = await manager.acquirePeerId(DOC_ID, () => "fresh", "4", cmpVersion);
+
+    expect(lease.value).toBe("first");
+    await lease.release("7");
+  });
+
+  it("ranks candidates with a custom scorer per call", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    await seed(manager);
+    const scorer = vi.fn<PeerIdScorer>((candidate) => (candidate.version === "2" ? 1 : undefined));
+
+    const lease = await manager.acquirePeerId(DOC_ID, () => "fresh", "6", cmpVersion, {
+      selection: scorer,
+    });
+    const unscored = await manager.acquirePeerId(DOC_ID, () => "fresh", "6", cmpVersion, {
+      selection: () => undefined,
+    });
+
+    expect(lease.value).toBe("last");
+    expect(scorer).toHaveBeenCalledTimes(3);
+    expect(scorer.mock.calls[0][1]).toMatchObject({ docId: DOC_ID, version: "6" });
+    expect(unscored.value).toBe("fresh");
+    await Promise.all([lease.release("7"), unscored.release("7")]);
+  });
+
+  it("rejects unknown strategies", async () => {
+    expect(() =>
+      createPeerLeaseManager({ selection: "random" as unknown as "first-match" }),
+    ).toThrow(TypeError);
+    await expect(
+      acquirePeerId(DOC_ID, () => "peer", "1", cmpVersion, {
+        selection: "random" as unknown as "first-match",
+      }),
+    ).rejects.toThrow(/options.selection/);
+  });
+});
+
+describe("burned peer IDs", () => {
+  it("never hands out a burned ID again", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const lease = await manager.acquirePeerId(DOC_ID, () => "collided", "1", cmpVersion);
+
+    await lease.burn();
+    await expect(lease.release("2")).rejects.toBeInstanceOf(PeerLeaseDoubleReleaseError);
+
+    const ids = ["collided", "fresh"];
+    const next = await manager.acquirePeerId(DOC_ID, () => ids.shift()!, "3", cmpVersion);
+    const snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+
+    expect(next.value).toBe("fresh");
+    expect(snapshot.burned).toEqual(["collided"]);
+    expect(snapshot.available).toEqual([]);
+    await next.release("4");
+  });
+});
+
+describe("acquisition metadata", () => {
+  it("reports a generated ID when nothing was cached", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const lease = await manager.acquirePeerId(DOC_ID, () => "fresh", "1", cmpVersion);
+
+    expect(lease.origin).toBe("generated");
+    expect(lease.candidates).toEqual([]);
+    await lease.release("2");
+  });
+
+  it("explains the outcome of every candidate", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const ids = ["old", "newer", "odd", "held"];
+    const leases = await manager.acquirePeerIds(
+      ids.map((id) => ({ docId: DOC_ID, genFn: () => id, version: "1", cmpVersion })),
+    );
+    await Promise.all([leases[0].release("2"), leases[1].release("9"), leases[2].release("?")]);
+
+    const cmpKnown = (a: string, b: string) => (b === "?" ? undefined : cmpVersion(a, b));
+    const reused = await manager.acquirePeerId(DOC_ID, () => "fresh", "5", cmpKnown, {
+      selection: "newest-version",
+    });
+
+    expect(reused.value).toBe("old");
+    expect(reused.origin).toBe("reused");
+    expect(reused.candidates).toEqual([
+      { peerId: "old", version: "2", outcome: "reused" },
+      { peerId: "newer", version: "9", outcome: "newer-version" },
+      { peerId: "odd", version: "?", outcome: "unordered" },
+      { peerId: "held", version: "1", outcome: "in-use" },
+    ]);
+
+    const generated = await manager.acquirePeerId(DOC_ID, () => "fresh", "3", cmpKnown);
+    expect(generated.origin).toBe("generated");
+    expect(generated.candidates.map((candidate) => candidate.outcome)).toEqual([
+      "newer-version",
+      "unordered",
+      "in-use",
+      "in-use",
+    ]);
+
+    await Promise.all([reused.release("6"), generated.release("6"), leases[3].release("6")]);
+  });
+});
+
+describe("peer ID scopes", () => {
+  it("only reuses IDs cached under the same scope", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const alice = { user: "alice", schema: 2 };
+    const lease = await manager.acquirePeerId(DOC_ID, () => "alice-peer", "1", cmpVersion, {
+      scope: alice,
+    });
+    expect((await manager.inspectPeerLeaseState(DOC_ID)).active[0].scope).toEqual(alice);
+    await lease.release("2");
+
+    const bob = await manager.acquirePeerId(DOC_ID, () => "bob-peer", "3", cmpVersion, {
+      scope: { user: "bob", schema: 2 },
+    });
+    const unscoped = await manager.acquirePeerId(DOC_ID, () => "anonymous", "3", cmpVersion);
+    const again = await manager.acquirePeerId(DOC_ID, () => "other", "3", cmpVersion, {
+      scope: { schema: 2, user: "alice" },
+    });
+
+    expect(bob.value).toBe("bob-peer");
+    expect(unscoped.value).toBe("anonymous");
+    expect(again.value).toBe("alice-peer");
+    await Promise.all([bob.release("4"), unscoped.release("4"), again.release("4")]);
+  });
+
+  it("records the release scope and applies custom matchers", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const lease = await manager.acquirePeerId(DOC_ID, () => "peer", "1", cmpVersion, {
+      scope: { user: "alice", schema: 1 },
+    });
+    await lease.release("2", { scope: { user: "alice", schema: 2 } });
+
+    const snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+    expect(snapshot.available[0].scope).toEqual({ user: "alice", schema: 2 });
+
+    const next = await manager.acquirePeerId(DOC_ID, () => "fresh", "3", cmpVersion, {
+      scope: { user: "alice", schema: 3 },
+      matchScope: (cached, scope) =>
+        cached?.user === scope?.user && Number(cached?.schema) <= Number(scope?.schema),
+    });
+    expect(next.value).toBe("peer");
+    await next.release("4");
+  });
+
+  it("rejects scopes that are not objects of JSON primitives", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    await expect(
+      manager.acquirePeerId(DOC_ID, () => "peer", "1", cmpVersion, {
+        scope: { user: { id: 1 } } as unknown as PeerLeaseScope,
+      }),
+    ).rejects.toThrow(/options.scope/);
+
+    const lease = await manager.acquirePeerId(DOC_ID, () => "peer", "1", cmpVersion);
+    await expect(lease.release("2", { scope: [] as unknown as PeerLeaseScope })).rejects.toThrow(
+      TypeError,
+    );
+    await lease.release("2");
+  });
+});
+
+describe("lease checkpoints", () => {
+  it("caches an expired lease at its checkpointed version", async () => {
+    const storage = new MemoryStorage();
+    const crashed = createPeerLeaseManager({
+      storage,
+      timings: { leaseTtlMs: 20, leaseHeartbeatIntervalMs: 60_000 },
+    });
+    const survivor = createPeerLeaseManager({ storage });
+    const events: PeerLeaseEvent[] = [];
+    const unsubscribe = survivor.subscribePeerLeaseEvents(DOC_ID, (event) => events.push(event));
+
+    const stale = await crashed.acquirePeerId(DOC_ID, () => "crashed", "1", cmpVersion);
+    await stale.checkpoint("5");
+    expect((await survivor.inspectPeerLeaseState(DOC_ID)).active[0].checkpoint).toBe("5");
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    const behind = await survivor.acquirePeerId(DOC_ID, () => "fresh", "4", cmpVersion);
+    expect(behind.value).toBe("fresh");
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: "stale-reclaimed",
+        peerId: "crashed",
+        version: "5",
+        reason: "checkpointed",
+      }),
+    );
+
+    const caughtUp = await survivor.acquirePeerId(DOC_ID, () => "other", "5", cmpVersion);
+    expect(caughtUp.value).toBe("crashed");
+
+    unsubscribe();
+    await Promise.all([behind.release("6"), caughtUp.release("6")]);
+  });
+
+  it("rejects checkpoints of a superseded lease and ignores released ones", async () => {
+    const storage = new MemoryStorage();
+    const stale = createPeerLeaseManager({
+      storage,
+      timings: { leaseTtlMs: 20, leaseHeartbeatIntervalMs: 60_000 },
+    });
+    const expired = await stale.acquirePeerId(DOC_ID, () => "contested", "1", cmpVersion);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    const manager = createPeerLeaseManager({ storage });
+    const current = await manager.acquirePeerId(DOC_ID, () => "contested", "2", cmpVersion);
+
+    await expect(expired.checkpoint("3")).rejects.toBeInstanceOf(PeerLeaseStaleLeaseError);
+    await current.release("4");
+    await expect(current.checkpoint("5")).resolves.toBeUndefined();
+    expect((await manager.inspectPeerLeaseState(DOC_ID)).available[0].version).toBe("4");
+  });
+});
+
+describe("waiting for releases", () => {
+  it("reuses an ID released by another holder while waiting", async () => {
+    const storage = new MemoryStorage();
+    const closing = createPeerLeaseManager({ storage });
+    const opening = createPeerLeaseManager({ storage });
+    const held = await closing.acquirePeerId(DOC_ID, () => "held", "1", cmpVersion);
+
+    const pending = opening.acquirePeerId(DOC_ID, () => "fresh", "2", cmpVersion, {
+      waitForReleaseMs: 5_000,
+    });
+    setTimeout(() => void held.release("2"), 20);
+
+    const lease = await pending;
+    expect(lease.value).toBe("held");
+    await lease.release("3");
+  });
+
+  it("picks up a release staged by a page that never flushed it", async () => {
+    const storage = new MemoryStorage();
+    const closing = createPeerLeaseManager({ storage });
+    const opening = createPeerLeaseManager({ storage });
+    const held = await closing.acquirePeerId(DOC_ID, () => "held", "1", cmpVersion);
+    // The closing page is frozen right after staging during `pagehide`.
+    (held as unknown as { flushReleaseFn: () => Promise<void> }).flushReleaseFn = () =>
+      new Promise(() => undefined);
+
+    const pending = opening.acquirePeerId(DOC_ID, () => "fresh", "2", cmpVersion, {
+      waitForReleaseMs: 5_000,
+    });
+    setTimeout(() => void held.release("2"), 20);
+
+    const lease = await pending;
+    expect(lease.value).toBe("held");
+    await lease.release("3");
+  });
+
+  it("generates a fresh ID once the wait expires", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const held = await manager.acquirePeerId(DOC_ID, () => "held", "1", cmpVersion);
+
+    const startedAt = Date.now();
+    const lease = await manager.acquirePeerId(DOC_ID, () => "fresh", "2", cmpVersion, {
+      waitForReleaseMs: 50,
+    });
+
+    expect(lease.value).toBe("fresh");
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+    await Promise.all([held.release("2"), lease.release("2")]);
+  });
+
+  it("does not wait for an ID held at a newer version", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const newer = await manager.acquirePeerId(DOC_ID, () => "newer", "5", cmpVersion);
+
+    const startedAt = Date.now();
+    const lease = await manager.acquirePeerId(DOC_ID, () => "fresh", "2", cmpVersion, {
+      waitForReleaseMs: 5_000,
+    });
+
+    expect(lease.value).toBe("fresh");
+    expect(Date.now() - startedAt).toBeLessThan(1_000);
+    await Promise.all([newer.release("6"), lease.release("3")]);
+  });
+
+  it("aborts the wait", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const held = await manager.acquirePeerId(DOC_ID, () => "held", "1", cmpVersion);
+    const genFn = vi.fn(() => "fresh");
+
+    const controller = new AbortController();
+    const pending = manager.acquirePeerId(DOC_ID, genFn, "2", cmpVersion, {
+      signal: controller.signal,
+      waitForReleaseMs: 5_000,
+    });
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(pending).rejects.toBeInstanceOf(PeerLeaseAbortError);
+    expect(genFn).not.toHaveBeenCalled();
+    await held.release("2");
+  });
+});
+
+describe("peer ID cache", () => {
+  const cachedIds = async (manager: ReturnType<typeof createPeerLeaseManager>) =>
+    (await manager.inspectPeerLeaseState(DOC_ID)).available.map((entry) => entry.peerId);
+
+  it("evicts the oldest releases beyond maxEntries", async () => {
+    const manager = createPeerLeaseManager({
+      storage: new MemoryStorage(),
+      cache: { maxEntries: 2 },
+    });
+
+    const leases = await Promise.all(
+      ["a", "b", "c"].map((id) => manager.acquirePeerId(DOC_ID, () => id, "1", cmpVersion)),
+    );
+    for (const lease of leases) {
+      await lease.release("2");
+    }
+
+    expect(await cachedIds(manager)).toEqual(["b", "c"]);
+  });
+
+  it("evicts the least recently leased IDs under the lru policy", async () => {
+    const manager = createPeerLeaseManager({
+      storage: new MemoryStorage(),
+      cache: { maxEntries: 1, eviction: "lru" },
+    });
+
+    const first = await manager.acquirePeerId(DOC_ID, () => "early", "1", cmpVersion);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await manager.acquirePeerId(DOC_ID, () => "late", "1", cmpVersion);
+    await second.release("2");
+    await first.release("2");
+
+    expect(await cachedIds(manager)).toEqual(["late"]);
+  });
+
+  it("evicts IDs older than maxAgeMs on the next write", async () => {
+    const manager = createPeerLeaseManager({
+      storage: new MemoryStorage(),
+      cache: { maxAgeMs: 10 },
+    });
+
+    const old = await manager.acquirePeerId(DOC_ID, () => "old", "1", cmpVersion);
+    const recent = await manager.acquirePeerId(DOC_ID, () => "recent", "1", cmpVersion);
+    await old.release("2");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await recent.release("2");
+
+    expect(await cachedIds(manager)).toEqual(["recent"]);
+  });
+
+  it("evicts IDs the comparator could not order too many times", async () => {
+    const manager = createPeerLeaseManager({
+      storage: new MemoryStorage(),
+      cache: { maxUnreusableAttempts: 2 },
+    });
+
+    const lease = await manager.acquirePeerId(DOC_ID, () => "concurrent", "1", cmpVersion);
+    await lease.release("2");
+
+    const first = await manager.acquirePeerId(DOC_ID, () => "fresh-1", "3", unordered);
+    const snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+    expect(snapshot.available).toMatchObject([{ peerId: "concurrent", unreusableAttempts: 1 }]);
+
+    const second = await manager.acquirePeerId(DOC_ID, () => "fresh-2", "3", unordered);
+    expect(await cachedIds(manager)).toEqual([]);
+
+    await Promise.all([first.release("4"), second.release("4")]);
+  });
+
+  it("forgets unordered attempts once the comparator orders an ID", async () => {
+    const manager = createPeerLeaseManager({
+      storage: new MemoryStorage(),
+      cache: { maxUnreusableAttempts: 2 },
+    });
+
+    const lease = await manager.acquirePeerId(DOC_ID, () => "concurrent", "1", cmpVersion);
+    await lease.release("3");
+
+    const leases = [
+      await manager.acquirePeerId(DOC_ID, () => "fresh-1", "4", unordered),
+      // Ordered but too old to reuse the ID.
+      await manager.acquirePeerId(DOC_ID, () => "fresh-2", "2", cmpVersion),
+    ];
+    let snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+    expect(snapshot.available).toEqual([expect.not.objectContaining({ unreusableAttempts: expect.anything() })]);
+
+    leases.push(await manager.acquirePeerId(DOC_ID, () => "fresh-3", "4", unordered));
+    snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+    expect(snapshot.available).toMatchObject([{ peerId: "concurrent", unreusableAttempts: 1 }]);
+
+    await Promise.all(leases.map((held) => held.release("5")));
+  });
+
+  it("rejects an invalid cache policy", () => {
+    expect(() => createPeerLeaseManager({ cache: { maxEntries: -1 } })).toThrow(TypeError);
+    expect(() =>
+      createPeerLeaseManager({ cache: { eviction: "random" as "lru" } }),
+    ).toThrow(TypeError);
+  });
+});
+
+describe("storage schema", () => {
+  const legacyState = JSON.stringify({
+    available: [
+      { id: "cached-a", version: "1" },
+      { id: "cached-b", version: "1" },
+    ],
+    active: { "held-a": { leasedAt: Date.now(), version: "1" } },
+  });
+
+  it("upgrades per-document state written without an envelope", async () => {
+    const storage = new MemoryStorage();
+    storage.setItem(
+      `peer-lease:state:${DOC_ID}`,
+      JSON.stringify({ available: [{ id: "cached", version: "1" }], active: {}, epoch: 4 }),
+    );
+    const manager = createPeerLeaseManager({ storage });
+
+    const lease = await manager.acquirePeerId(DOC_ID, () => "fresh", "2", cmpVersion);
+    expect(lease.value).toBe("cached");
+    expect(lease.epoch).toBe(5);
+
+    const stored = JSON.parse(storage.getItem(`peer-lease:state:${DOC_ID}`)!);
+    expect(stored).toMatchObject({ schema: 1, data: { epoch: 5 } });
+    await lease.release("3");
+  });
+
+  it("refuses to overwrite state written by a newer schema", async () => {
+    const storage = new MemoryStorage();
+    const future = JSON.stringify({ schema: 99, data: { peers: [] } });
+    storage.setItem(`peer-lease:state:${DOC_ID}`, future);
+    const manager = createPeerLeaseManager({ storage });
+
+    await expect(
+      manager.acquirePeerId(DOC_ID, () => "fresh", "1", cmpVersion),
+    ).rejects.toThrow(/schema 99/);
+    expect(storage.getItem(`peer-lease:state:${DOC_ID}`)).toBe(future);
+  });
+
+  it("moves the pre-2.0 global state into the mapped documents", async () => {
+    const storage = new MemoryStorage();
+    storage.setItem("peer-lease:state", legacyState);
+    const manager = createPeerLeaseManager({
+      storage,
+      legacyDocId: ({ peerId }) => (peerId.endsWith("-a") ? DOC_ID : OTHER_DOC_ID),
+    });
+
+    const snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+    expect(snapshot.available.map((entry) => entry.peerId)).toEqual(["cached-a"]);
+    expect(snapshot.active.map((entry) => entry.peerId)).toEqual(["held-a"]);
+
+    const other = await manager.acquirePeerId(OTHER_DOC_ID, () => "fresh", "2", cmpVersion);
+    expect(other.value).toBe("cached-b");
+    expect(storage.getItem("peer-lease:state")).toBeNull();
+
+    await other.release("3");
+  });
+
+  it("discards the pre-2.0 global state without a mapping", async () => {
+    const storage = new MemoryStorage();
+    storage.setItem("peer-lease:state", legacyState);
+    storage.setItem("peer-lease:lock:fence", "7");
+    const manager = createPeerLeaseManager({ storage });
+
+    const lease = await manager.acquirePeerId(DOC_ID, () => "fresh", "2", cmpVersion);
+    expect(lease.value).toBe("fresh");
+    expect(storage.getItem("peer-lease:state")).toBeNull();
+    expect(storage.getItem("peer-lease:lock:fence")).toBeNull();
+
+    await lease.release("3");
+  });
+
+  it("clears the pre-2.0 lock keys on reset without legacy state", async () => {
+    const storage = new MemoryStorage();
+    storage.setItem("peer-lease:lock", JSON.stringify({ token: "old", expiresAt: Date.now() + 60_000 }));
+    storage.setItem("peer-lease:lock:fence", "7");
+    const manager = createPeerLeaseManager({ storage });
+
+    await manager.resetPeerLeaseState();
+    expect(storage.getItem("peer-lease:lock")).toBeNull();
+    expect(storage.getItem("peer-lease:lock:fence")).toBeNull();
+  });
+});
+
+describe("corruption recovery", () => {
+  const stateKey = `peer-lease:state:${DOC_ID}`;
+
+  it("restores the last-known-good backup and reports it", async () => {
+    const storage = new MemoryStorage();
+    const manager = createPeerLeaseManager({ storage });
+    const events: PeerLeaseEvent[] = [];
+    manager.subscribePeerLeaseEvents(DOC_ID, (event) => {
+      events.push(event);
+    });
+
+    const held = await manager.acquirePeerId(DOC_ID, () => "held", "1", cmpVersion);
+    storage.setItem(stateKey, storage.getItem(stateKey)!.slice(0, 20));
+
+    // The active record survives, so "held" is skipped rather than handed out twice.
+    const candidates = ["held", "other"];
+    const next = await manager.acquirePeerId(DOC_ID, () => candidates.shift()!, "1", cmpVersion);
+    expect(next.value).toBe("other");
+    expect(events.find((event) => event.type === "state-corrupted")).toMatchObject({
+      record: "state",
+      recovery: "backup",
+      reason: expect.stringMatching(/invalid JSON/),
+    });
+    expect(() => JSON.parse(storage.getItem(stateKey)!)).not.toThrow();
+
+    await Promise.all([held.release("2"), next.release("2")]);
+  });
+
+  it("skips the backup on heartbeat-only writes and keeps restored holders alive", async () => {
+    const backupKey = `peer-lease:state-backup:${DOC_ID}`;
+    const storage = new MemoryStorage();
+    const setItem = vi.spyOn(storage, "setItem");
+    const manager = createPeerLeaseManager({
+      storage,
+      timings: { leaseTtlMs: 40, leaseHeartbeatIntervalMs: 10 },
+    });
+
+    const held = await manager.acquirePeerId(DOC_ID, () => "held", "1", cmpVersion);
+    await new Promise((resolve) => setTimeout(resolve, 80));
+
+    const writes = (key: string) => setItem.mock.calls.filter(([written]) => written === key).length;
+    expect(writes(stateKey)).toBeGreaterThan(2);
+    expect(writes(backupKey)).toBe(1);
+
+    // The backup's expiry has passed, but the holder is still renewing.
+    storage.setItem(stateKey, "{");
+    const candidates = ["held", "other"];
+    const next = await manager.acquirePeerId(DOC_ID, () => candidates.shift()!, "1", cmpVersion);
+    expect(next.value).toBe("other");
+
+    await Promise.all([held.release("2"), next.release("2")]);
+  });
+
+  it("starts empty with a diagnostic when no backup is usable", async () => {
+    const storage = new MemoryStorage();
+    const manager = createPeerLeaseManager({ storage });
+    const listener = vi.fn();
+    manager.subscribePeerLeaseEvents(DOC_ID, listener);
+
+    storage.setItem(stateKey, JSON.stringify({ schema: 1, checksum: "00000000", data: {} }));
+    const lease = await manager.acquirePeerId(DOC_ID, () => "fresh", "1", cmpVersion);
+
+    expect(lease.value).toBe("fresh");
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "state-corrupted", recovery: "reset" }),
+    );
+    await lease.release("2");
+  });
+
+  it("discards a corrupt pending journal and reports it", async () => {
+    const storage = new MemoryStorage();
+    const manager = createPeerLeaseManager({ storage });
+    const listener = vi.fn();
+    manager.subscribePeerLeaseEvents(DOC_ID, listener);
+
+    storage.setItem(`peer-lease:pending:${DOC_ID}`, "[{");
+    const lease = await manager.acquirePeerId(DOC_ID, () => "fresh", "1", cmpVersion);
+
+    expect(storage.getItem(`peer-lease:pending:${DOC_ID}`)).toBeNull();
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "state-corrupted", record: "pending", recovery: "discarded" }),
+    );
+    await lease.release("2");
+  });
+});
+
+describe("storage quota", () => {
+  class QuotaStorage extends MemoryStorage {
+    full = false;
+    /** Largest value accepted for per-document state records. */
+    stateLimit = Number.POSITIVE_INFINITY;
+
+    override setItem(key: string, value: string): void {
+      if (this.full || (key.includes(":state:") && value.length > this.stateLimit)) {
+        throw new DOMException("The quota has been exceeded.", "QuotaExceededError");
+      }
+      super.setItem(key, value);
+    }
+  }
+
+  it("compacts the cache of released IDs to make room", async () => {
+    const storage = new QuotaStorage();
+    const manager = createPeerLeaseManager({ storage });
+    const leases = await Promise.all(
+      Array.from({ length: 8 }, (_, index) =>
+        manager.acquirePeerId(DOC_ID, () => `peer-${index}`, "1", cmpVersion),
+      ),
+    );
+    for (const lease of leases.slice(0, 7)) {
+      await lease.release("2");
+    }
+
+    // Turning a cached ID into an active record grows the state past the limit.
+    storage.stateLimit = storage.getItem(`peer-lease:state:${DOC_ID}`)!.length + 20;
+    const reused = await manager.acquirePeerId(DOC_ID, () => "fresh", "3", cmpVersion);
+    const snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+
+    expect(reused.value).toBe("peer-0");
+    expect(reused.reusable).toBe(true);
+    expect(snapshot.available.length).toBeLessThan(6);
+    expect(snapshot.active.map((entry) => entry.peerId).sort()).toEqual(["peer-0", "peer-7"]);
+
+    storage.stateLimit = Number.POSITIVE_INFINITY;
+    await Promise.all([reused.release("4"), leases[7].release("2")]);
+  });
+
+  it("falls back to an untracked lease that avoids recorded IDs", async () => {
+    const storage = new QuotaStorage();
+    const manager = createPeerLeaseManager({ storage });
+    const held = await manager.acquirePeerId(DOC_ID, () => "held", "1", cmpVersion);
+    const events: PeerLeaseEvent[] = [];
+    manager.subscribePeerLeaseEvents(DOC_ID, (event) => {
+      events.push(event);
+    });
+
+    storage.stateLimit = 0;
+    // Offers the held ID first on every generation, including the fallback's.
+    let calls = 0;
+    const lease = await manager.acquirePeerId(
+      DOC_ID,
+      () => (calls++ % 2 === 0 ? "held" : "fallback"),
+      "1",
+      cmpVersion,
+    );
+
+    expect(lease.value).toBe("fallback");
+    expect(lease.reusable).toBe(false);
+    expect(lease.origin).toBe("fallback");
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "fallback", docId: DOC_ID, peerId: "fallback", version: "1" }),
+    );
+    await lease.release("2");
+
+    storage.stateLimit = Number.POSITIVE_INFINITY;
+    await held.release("2");
+    const snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+    expect(snapshot.available.map((entry) => entry.peerId)).toEqual(["held"]);
+  });
+
+  it("rejects with a typed error when the state cannot be read", async () => {
+    const storage = new QuotaStorage();
+    storage.full = true;
+    const manager = createPeerLeaseManager({ storage });
+
+    await expect(manager.acquirePeerId(DOC_ID, () => "fallback", "1", cmpVersion)).rejects.toBeInstanceOf(
+      PeerLeaseQuotaError,
+    );
+    expect(storage.keys()).toEqual([]);
+  });
+
+  it("rejects a release with a typed error when the state cannot be written", async () => {
+    const storage = new QuotaStorage();
+    const manager = createPeerLeaseManager({ storage });
+    const lease = await manager.acquirePeerId(DOC_ID, () => "held", "1", cmpVersion);
+
+    storage.full = true;
+    await expect(lease.release("2")).rejects.toBeInstanceOf(PeerLeaseQuotaError);
+
+    storage.full = false;
+    await lease.release("2");
+    const snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+    expect(snapshot.available.map((entry) => entry.peerId)).toEqual(["held"]);
+  });
+
+  it("keeps renewing a lease whose release failed", async () => {
+    const storage = new QuotaStorage();
+    const manager = createPeerLeaseManager({
+      storage,
+      timings: { leaseTtlMs: 1_000, leaseHeartbeatIntervalMs: 20 },
+    });
+    const lease = await manager.acquirePeerId(DOC_ID, () => "held", "1", cmpVersion);
+    const expiresAt = async () => (await manager.inspectPeerLeaseState(DOC_ID)).active[0]?.expiresAt ?? 0;
+
+    storage.full = true;
+    await expect(lease.release("2")).rejects.toBeInstanceOf(PeerLeaseQuotaError);
+    storage.full = false;
+
+    const failedAt = await expiresAt();
+    await expect.poll(expiresAt).toBeGreaterThan(failedAt);
+
+    await lease.release("2");
+  });
+});
+
+describe("typed errors", () => {
+  class BrokenStorage extends MemoryStorage {
+    broken = false;
+
+    override getItem(key: string): string | null {
+      if (this.broken) {
+        throw new Error("disk offline");
+      }
+      return super.getItem(key);
+    }
+  }
+
+  it("rejects a second release with a different version", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const lease = await manager.acquirePeerId(DOC_ID, () => "once", "1", cmpVersion);
+
+    const first = lease.release("2");
+    const second = lease.release("3");
+
+    await expect(second).rejects.toBeInstanceOf(PeerLeaseDoubleReleaseError);
+    await expect(second).rejects.toMatchObject({ code: "double-release", peerId: "once" });
+    await first;
+  });
+
+  it("reports an exhausted generator", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const held = await manager.acquirePeerId(DOC_ID, () => "same", "1", cmpVersion);
+
+    const error = await manager
+      .acquirePeerId(DOC_ID, () => "same", "1", cmpVersion)
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(PeerLeaseGeneratorError);
+    expect(error).toBeInstanceOf(PeerLeaseError);
+    expect((error as PeerLeaseError).code).toBe("generator-exhausted");
+    await held.release("2");
+  });
+
+  it("wraps storage backend failures", async () => {
+    const stateStorage = new BrokenStorage();
+    const manager = createPeerLeaseManager({
+      storage: new MemoryStorage(),
+      stateStorage: toAsyncStorage(stateStorage),
+    });
+    const lease = await manager.acquirePeerId(DOC_ID, () => "offline", "1", cmpVersion);
+
+    stateStorage.broken = true;
+    const error = await manager.inspectPeerLeaseState(DOC_ID).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(PeerLeaseStorageError);
+    expect(error).toMatchObject({ code: "storage-unavailable" });
+    expect((error as Error).cause).toEqual(new Error("disk offline"));
+
+    stateStorage.broken = false;
+    await lease.release("2");
+  });
+});
+
+describe("batch acquisition", () => {
+  it("takes each document mutex once and returns leases in request order", async () => {
+    const runs: string[] = [];
+    const manager = createPeerLeaseManager({
+      storage: new MemoryStorage(),
+      mutexFactory: (config) => {
+        const mutex = createMutex(config);
+        return {
+          runExclusive: (callback, options) => {
+            runs.push(config.lockKey);
+            return mutex.runExclusive(callback, options);
+          },
+        };
+      },
+    });
+    const cached = await manager.acquirePeerId(DOC_ID, () => "cached", "1", cmpVersion);
+    await cached.release("2");
+    runs.length = 0;
+
+    const leases = await manager.acquirePeerIds([
+      { docId: DOC_ID, genFn: () => "fresh-a", version: "3", cmpVersion },
+      { docId: OTHER_DOC_ID, genFn: () => "other", version: "1", cmpVersion },
+      { docId: DOC_ID, genFn: () => "fresh-b", version: "3", cmpVersion },
+    ]);
+
+    expect(leases.map((lease) => lease.value)).toEqual(["cached", "other", "fresh-b"]);
+    expect(runs.sort()).toEqual([`peer-lease:lock:${DOC_ID}`, `peer-lease:lock:${OTHER_DOC_ID}`]);
+    expect(leases[2].epoch).toBeGreaterThan(leases[0].epoch);
+
+    await Promise.all(leases.map((lease) => lease.release("4")));
+  });
+
+  it("releases every acquired lease when one document fails", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const cached = await manager.acquirePeerId(DOC_ID, () => "cached", "1", cmpVersion);
+    await cached.release("2");
+
+    await expect(
+      manager.acquirePeerIds([
+        { docId: DOC_ID, genFn: () => "reused", version: "2", cmpVersion },
+        { docId: DOC_ID, genFn: () => "generated", version: "2", cmpVersion },
+        { docId: OTHER_DOC_ID, genFn: () => "", version: "1", cmpVersion },
+      ]),
+    ).rejects.toBeInstanceOf(PeerLeaseGeneratorError);
+
+    // The reused ID is cached again at its version; the generated one joins
+    // the cache at the requested version.
+    const snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+    expect(snapshot.active).toEqual([]);
+    expect(snapshot.available.map(({ peerId, version }) => ({ peerId, version }))).toEqual([
+      { peerId: "cached", version: "2" },
+      { peerId: "generated", version: "2" },
+    ]);
+    const other = await manager.inspectPeerLeaseState(OTHER_DOC_ID);
+    expect(other.active).toEqual([]);
+  });
+
+  it("resolves an empty batch without touching storage", async () => {
+    const storage = new MemoryStorage();
+    const manager = createPeerLeaseManager({ storage });
+
+    await expect(manager.acquirePeerIds([])).resolves.toEqual([]);
+    expect(storage.keys()).toEqual([]);
+  });
+
+  it("validates every request before acquiring", async () => {
+    await expect(
+      acquirePeerIds([
+        { docId: DOC_ID, genFn: () => "valid", version: "1", cmpVersion },
+        { docId: "", genFn: () => "invalid", version: "1", cmpVersion },
+      ]),
+    ).rejects.toThrow(/acquirePeerIds expects a non-empty docId/);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import { IndexedDBStorage, MemoryStorage, createPeerLeaseManager } from "../src/index.js";
+import type { AsyncStorageLike } from "../src/index.js";
+
+const cmpVersion = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true });
+
+describe("IndexedDBStorage", () => {
+  it("round-trips values through the object store", async () => {
+    const storage = new IndexedDBStorage({ factory: new IDBFactory() });
+
+    expect(await storage.getItem("missing")).toBeNull();
+
+    await storage.setItem("key", "value");
+    expect(await storage.getItem("key")).toBe("value");
+
+    await storage.removeItem("key");
+    expect(await storage.getItem("key")).toBeNull();
+
+    await storage.close();
+  });
+
+  it("enumerates stored keys", async () => {
+    const storage = new IndexedDBStorage({ factory: new IDBFactory() });
+
+    await storage.setItem("b", "2");
+    await storage.setItem("a", "1");
+    expect(await storage.keys()).toEqual(["a", "b"]);
+
+    await storage.close();
+  });
+
+  it("reopens the connection after close", async () => {
+    const factory = new IDBFactory();
+    const storage = new IndexedDBStorage({ factory, databaseName: "reopen" });
+
+    await storage.setItem("key", "persisted");
+    await storage.close();
+
+    const reopened = new IndexedDBStorage({ factory, databaseName: "reopen" });
+    expect(await reopened.getItem("key")).toBe("persisted");
+    expect(await storage.getItem("key")).toBe("persisted");
+
+    await Promise.all([storage.close(), reopened.close()]);
+  });
+
+  it("adds a second store to an existing database", async () => {
+    const factory = new IDBFactory();
+    const first = new IndexedDBStorage({ factory, databaseName: "shared" });
+    await first.setItem("key", "first");
+
+    const second = new IndexedDBStorage({ factory, databaseName: "shared", storeName: "other" });
+    await second.setItem("key", "second");
+    expect(await second.getItem("key")).toBe("second");
+
+    // The upgrade closed the first connection; it reopens at the new version.
+    expect(await first.getItem("key")).toBe("first");
+
+    await Promise.all([first.close(), second.close()]);
+  });
+
+  it("keeps lease state out of the synchronous storage", async () => {
+    const storage = new MemoryStorage();
+    const stateStorage = new IndexedDBStorage({ factory: new IDBFactory() });
+    const manager = createPeerLeaseManager({ storage, stateStorage });
+
+    const lease = await manager.acquirePeerId("doc", () => "idb-peer", "1", cmpVersion);
+    const releaseTask = lease.release("2");
+
+    // The release is staged synchronously for pagehide handlers.
+    expect(storage.getItem("peer-lease:pending:doc")).not.toBeNull();
+    await releaseTask;
+
+    expect(storage.getItem("peer-lease:state:doc")).toBeNull();
+    expect(await stateStorage.getItem("peer-lease:state:doc")).not.toBeNull();
+
+    const next = await manager.acquirePeerId("doc", () => "fresh", "3", cmpVersion);
+    expect(next.value).toBe("idb-peer");
+    await next.release("4");
+
+    await stateStorage.close();
+  });
+
+  it("lets another context apply a release staged by a context that died", async () => {
+    const stateStorage = new IndexedDBStorage({ factory: new IDBFactory() });
+    let alive = true;
+    // Once the worker dies, its pending state reads never complete.
+    const dying: AsyncStorageLike = {
+      getItem: (key) =>
+        alive || !key.includes(":state:") ? stateStorage.getItem(key) : new Promise(() => {}),
+      setItem: (key, value) => stateStorage.setItem(key, value),
+      removeItem: (key) => stateStorage.removeItem(key),
+    };
+    const worker = createPeerLeaseManager({ storage: new MemoryStorage(), stateStorage: dying });
+    const survivor = createPeerLeaseManager({ storage: new MemoryStorage(), stateStorage });
+
+    const lease = await worker.acquirePeerId("doc", () => "worker-peer", "1", cmpVersion);
+    alive = false;
+    void lease.release("2");
+
+    await expect
+      .poll(async () => (await survivor.inspectPeerLeaseState("doc")).pendingReleases)
+      .toMatchObject([{ peerId: "worker-peer", version: "2" }]);
+
+    const next = await survivor.acquirePeerId("doc", () => "fresh", "3", cmpVersion);
+    expect(next.value).toBe("worker-peer");
+    expect((await survivor.inspectPeerLeaseState("doc")).pendingReleases).toEqual([]);
+    expect(await stateStorage.getItem("peer-lease:pending:doc")).toBeNull();
+    await next.release("4");
+
+    await stateStorage.close();
+  });
+});
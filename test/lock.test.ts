@@ -1,5 +1,7 @@
-import { describe, expect, it } from "vitest";
-import { LocalStorageMutex, MemoryStorage } from "../src/lock.js";
+import { describe, expect, it, vi } from "vitest";
+import { PeerLeaseAbortError, PeerLeaseQuotaError, PeerLeaseTimeoutError } from "../src/errors.js";
+import { LocalStorageMutex, MemoryStorage, WebLocksMutex } from "../src/lock.js";
+import type { LockManagerLike } from "../src/lock.js";
 
 const BASE_OPTIONS = {
   lockTtlMs: 200,
@@ -85,4 +87,182 @@ describe("LocalStorageMutex", () => {
 
     await holder;
   });
+
+  it("honours a per-call timeout", async () => {
+    const mutex = new LocalStorageMutex({
+      storage: new MemoryStorage(),
+      key: "override:lock",
+      fenceKey: "override:fence",
+      channelName: "override:channel",
+      options: {
+        ...BASE_OPTIONS,
+        acquireTimeoutMs: 10_000
+      }
+    });
+
+    const holder = mutex.runExclusive(async () => {
+      await sleep(60);
+    });
+
+    await sleep(5);
+
+    const startedAt = Date.now();
+    const attempt = mutex.runExclusive(() => undefined, { timeoutMs: 20 });
+    await expect(attempt).rejects.toThrow(/Timed out/);
+    await expect(attempt).rejects.toBeInstanceOf(PeerLeaseTimeoutError);
+    expect(Date.now() - startedAt).toBeLessThan(1_000);
+
+    await holder;
+  });
+
+  it("makes a single attempt with a zero timeout", async () => {
+    const mutex = new LocalStorageMutex({
+      storage: new MemoryStorage(),
+      key: "zero:lock",
+      fenceKey: "zero:fence",
+      channelName: "zero:channel",
+      options: BASE_OPTIONS
+    });
+
+    const holder = mutex.runExclusive(async () => {
+      await sleep(30);
+    });
+
+    await expect(mutex.runExclusive(() => undefined, { timeoutMs: 0 })).rejects.toBeInstanceOf(
+      PeerLeaseTimeoutError
+    );
+    await holder;
+    await expect(mutex.runExclusive(() => "free", { timeoutMs: 0 })).resolves.toBe("free");
+  });
+
+  it("stops waiting as soon as the signal aborts", async () => {
+    const mutex = new LocalStorageMutex({
+      storage: new MemoryStorage(),
+      key: "abort:lock",
+      fenceKey: "abort:fence",
+      channelName: "abort:channel",
+      options: {
+        ...BASE_OPTIONS,
+        acquireTimeoutMs: 10_000,
+        retryDelayMs: 5_000
+      }
+    });
+
+    const holder = mutex.runExclusive(async () => {
+      await sleep(80);
+    });
+
+    await sleep(5);
+
+    const controller = new AbortController();
+    const callback = vi.fn();
+    const waiting = mutex.runExclusive(callback, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(waiting).rejects.toBeInstanceOf(PeerLeaseAbortError);
+    expect(callback).not.toHaveBeenCalled();
+    await holder;
+  });
+
+  it("rejects immediately with an already aborted signal", async () => {
+    const mutex = new LocalStorageMutex({
+      storage: new MemoryStorage(),
+      key: "aborted:lock",
+      fenceKey: "aborted:fence",
+      channelName: "aborted:channel",
+      options: BASE_OPTIONS
+    });
+
+    await expect(
+      mutex.runExclusive(() => undefined, { signal: AbortSignal.abort() })
+    ).rejects.toBeInstanceOf(PeerLeaseAbortError);
+  });
+
+  it("reports a full storage as a typed error", async () => {
+    const storage = new MemoryStorage();
+    storage.setItem = () => {
+      throw new DOMException("The quota has been exceeded.", "QuotaExceededError");
+    };
+    const mutex = new LocalStorageMutex({
+      storage,
+      key: "quota:lock",
+      fenceKey: "quota:fence",
+      channelName: "quota:channel",
+      options: BASE_OPTIONS
+    });
+
+    await expect(mutex.runExclusive(() => undefined)).rejects.toBeInstanceOf(PeerLeaseQuotaError);
+  });
+});
+
+describe("WebLocksMutex", () => {
+  class QueueingLockManager {
+    private held = false;
+    private readonly queue: Array<() => void> = [];
+
+    async request<T>(
+      name: string,
+      options: { ifAvailable?: boolean; signal?: AbortSignal },
+      callback: (lock: { name: string } | null) => T | Promise<T>
+    ): Promise<T> {
+      if (this.held && options.ifAvailable) {
+        return callback(null);
+      }
+
+      while (this.held) {
+        await new Promise<void>((resolve, reject) => {
+          const grant = () => resolve();
+          this.queue.push(grant);
+          options.signal?.addEventListener("abort", () => {
+            const index = this.queue.indexOf(grant);
+            if (index >= 0) {
+              this.queue.splice(index, 1);
+              reject(new DOMException("The request was aborted", "AbortError"));
+            }
+          });
+        });
+      }
+
+      this.held = true;
+      try {
+        return await callback({ name });
+      } finally {
+        this.held = false;
+        this.queue.shift()?.();
+      }
+    }
+  }
+
+  it("distinguishes caller aborts from timeouts", async () => {
+    const locks = new QueueingLockManager();
+    const mutex = new WebLocksMutex(locks as unknown as LockManagerLike, "test", 10_000);
+
+    const holder = mutex.runExclusive(async () => {
+      await sleep(60);
+    });
+
+    const controller = new AbortController();
+    const aborted = mutex.runExclusive(() => undefined, { signal: controller.signal });
+    const timedOut = mutex.runExclusive(() => undefined, { timeoutMs: 10 });
+    setTimeout(() => controller.abort(), 5);
+
+    await expect(aborted).rejects.toBeInstanceOf(PeerLeaseAbortError);
+    await expect(timedOut).rejects.toThrow(/Timed out/);
+    await holder;
+  });
+
+  it("makes a single attempt with a zero timeout", async () => {
+    const locks = new QueueingLockManager();
+    const mutex = new WebLocksMutex(locks as unknown as LockManagerLike, "test", 10_000);
+
+    const holder = mutex.runExclusive(async () => {
+      await sleep(30);
+    });
+
+    await expect(mutex.runExclusive(() => undefined, { timeoutMs: 0 })).rejects.toBeInstanceOf(
+      PeerLeaseTimeoutError
+    );
+    await holder;
+    await expect(mutex.runExclusive(() => "free", { timeoutMs: 0 })).resolves.toBe("free");
+  });
 });
@@ -1,6 +1,14 @@
-import { describe, expect, it } from "vitest";
-import { tryReuseLoroPeerId } from "../src";
+import { describe, expect, it, vi } from "vitest";
+import {
+  MemoryStorage,
+  attachPeerLeaseLifecycle,
+  createPeerLeaseManager,
+  tryReuseLoroPeerId,
+  tryReuseLoroPeerIds,
+} from "../src";
+import type { LoroPeerIdCollision, LoroPeerIdPersistence } from "../src";
 import { LoroDoc } from "loro-crdt";
+import type { Frontiers } from "loro-crdt";
 const DOC_ID = "loro-doc";
 
 describe("tryReuseLoroPeerId", () => {
@@ -21,4 +29,528 @@ describe("tryReuseLoroPeerId", () => {
       await releaseTask;
     }
   });
+
+  it("reuses the first release when the handle is called again", async () => {
+    const doc = new LoroDoc();
+    const release = await tryReuseLoroPeerId("loro-doc-twice", doc);
+    doc.getText("text").insert(0, "hello");
+    const first = release();
+
+    doc.getText("text").insert(5, " world");
+    await expect(release()).resolves.toBeUndefined();
+    await first;
+  });
+
+  it("reports how the peer id was acquired", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const first = await manager.tryReuseLoroPeerId(DOC_ID, new LoroDoc());
+    expect(first.origin).toBe("generated");
+    await first();
+
+    const reopened = await manager.tryReuseLoroPeerId(DOC_ID, new LoroDoc());
+    expect(reopened.origin).toBe("reused");
+    expect(reopened.candidates).toEqual([
+      { peerId: first.value, version: "[]", outcome: "reused" },
+    ]);
+
+    await reopened.rotate();
+    expect(reopened.origin).toBe("generated");
+    expect(reopened.candidates.map((candidate) => candidate.outcome)).toEqual(["in-use"]);
+    await reopened();
+  });
+
+  it("assigns leased peer ids to a batch of docs", async () => {
+    const first = new LoroDoc();
+    const second = new LoroDoc();
+    const [firstRelease, secondRelease] = await tryReuseLoroPeerIds([
+      ["loro-batch-a", first],
+      ["loro-batch-b", second],
+    ]);
+
+    expect(firstRelease.value).toBe(first.peerIdStr);
+    expect(secondRelease.value).toBe(second.peerIdStr);
+    await Promise.all([firstRelease(), secondRelease()]);
+
+    const reopened = new LoroDoc();
+    const [release] = await tryReuseLoroPeerIds([["loro-batch-a", reopened]]);
+    expect(reopened.peerIdStr).toBe(firstRelease.value);
+    await release();
+  });
+});
+
+describe("version-vector reuse", () => {
+  // The releasing doc saw an op from another peer that the reopened doc,
+  // loaded from an older snapshot, lacks. Its frontiers then reference an
+  // unknown op, but every op of the leased peer is present.
+  const releaseAfterForeignOp = async (
+    manager: ReturnType<typeof createPeerLeaseManager>,
+    versionFormat: "frontiers" | "version-vector",
+  ) => {
+    const doc = new LoroDoc();
+    const release = await manager.tryReuseLoroPeerId(DOC_ID, doc, { versionFormat });
+    doc.getText("text").insert(0, "a");
+    doc.commit();
+    const snapshot = doc.export({ mode: "snapshot" });
+
+    const foreign = new LoroDoc();
+    foreign.import(snapshot);
+    foreign.getText("text").insert(1, "b");
+    foreign.commit();
+    doc.import(foreign.export({ mode: "update" }));
+
+    await release();
+    return { peerId: release.value, snapshot };
+  };
+
+  it("reuses a peer id whose ops are all present even if the frontiers are unknown", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const { peerId, snapshot } = await releaseAfterForeignOp(manager, "version-vector");
+
+    const reopened = new LoroDoc();
+    reopened.import(snapshot);
+    const release = await manager.tryReuseLoroPeerId(DOC_ID, reopened, {
+      versionFormat: "version-vector",
+    });
+
+    expect(reopened.peerIdStr).toBe(peerId);
+    await release();
+  });
+
+  it("cannot order the same case with frontiers", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const { peerId, snapshot } = await releaseAfterForeignOp(manager, "frontiers");
+
+    const reopened = new LoroDoc();
+    reopened.import(snapshot);
+    const release = await manager.tryReuseLoroPeerId(DOC_ID, reopened);
+
+    expect(reopened.peerIdStr).not.toBe(peerId);
+    await release();
+  });
+
+  it("does not reuse a peer id whose ops the doc lacks", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const { peerId } = await releaseAfterForeignOp(manager, "version-vector");
+
+    const empty = new LoroDoc();
+    const release = await manager.tryReuseLoroPeerId(DOC_ID, empty, {
+      versionFormat: "version-vector",
+    });
+
+    expect(empty.peerIdStr).not.toBe(peerId);
+    await release();
+  });
+
+  it("records staged frontiers as a version vector", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const doc = new LoroDoc();
+    const release = await manager.tryReuseLoroPeerId(DOC_ID, doc, {
+      versionFormat: "version-vector",
+    });
+    doc.getText("text").insert(0, "a");
+    doc.commit();
+
+    await release(JSON.stringify(doc.frontiers()));
+
+    const snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+    expect(JSON.parse(snapshot.available[0].version.slice("vv:".length))).toEqual({
+      [release.value]: 1,
+    });
+  });
+
+  it("ranks cached ids by whole version vectors with newest-version", async () => {
+    const manager = createPeerLeaseManager({
+      storage: new MemoryStorage(),
+      selection: "newest-version",
+    });
+    const first = new LoroDoc();
+    const older = await manager.tryReuseLoroPeerId(DOC_ID, first, { versionFormat: "version-vector" });
+    first.getText("text").insert(0, "a");
+    first.commit();
+
+    // The second doc saw the first one's op, so it is released at a newer version.
+    const second = new LoroDoc();
+    second.import(first.export({ mode: "snapshot" }));
+    const newer = await manager.tryReuseLoroPeerId(DOC_ID, second, { versionFormat: "version-vector" });
+    second.getText("text").insert(1, "b");
+    second.commit();
+
+    await older();
+    await newer();
+
+    const reopened = new LoroDoc();
+    reopened.import(second.export({ mode: "snapshot" }));
+    const release = await manager.tryReuseLoroPeerId(DOC_ID, reopened, {
+      versionFormat: "version-vector",
+    });
+
+    expect(reopened.peerIdStr).toBe(newer.value);
+    await release();
+  });
+
+  it("rejects unknown version formats", async () => {
+    await expect(
+      tryReuseLoroPeerId(DOC_ID, new LoroDoc(), {
+        versionFormat: "oplog" as unknown as "frontiers",
+      }),
+    ).rejects.toThrow(TypeError);
+  });
+});
+
+describe("peer ID collisions", () => {
+  const collide = (doc: LoroDoc) => {
+    const impostor = new LoroDoc();
+    impostor.setPeerId(doc.peerIdStr);
+    impostor.getText("text").insert(0, "xyz");
+    impostor.commit();
+    doc.import(impostor.export({ mode: "update" }));
+  };
+
+  it("rotates to a fresh peer id and burns the collided one", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const doc = new LoroDoc();
+    const collisions: LoroPeerIdCollision[] = [];
+    const release = await manager.tryReuseLoroPeerId(DOC_ID, doc, {
+      detectCollisions: true,
+      onPeerIdCollision: (collision) => collisions.push(collision),
+    });
+    const leased = release.value;
+    doc.getText("text").insert(0, "a");
+    doc.commit();
+
+    collide(doc);
+    expect(doc.peerIdStr).not.toBe(leased);
+
+    await vi.waitFor(() => expect(collisions).toHaveLength(1));
+    expect(collisions[0]).toEqual({ docId: DOC_ID, previousPeerId: leased, peerId: doc.peerIdStr });
+    expect(release.value).toBe(doc.peerIdStr);
+
+    const snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+    expect(snapshot.burned).toEqual([leased]);
+    expect(snapshot.active.map((entry) => entry.peerId)).toEqual([release.value]);
+
+    await release();
+    const next = await manager.inspectPeerLeaseState(DOC_ID);
+    expect(next.available.map((entry) => entry.peerId)).toEqual([collisions[0].peerId]);
+  });
+
+  it("ignores our own ops coming back from a remote", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const doc = new LoroDoc();
+    const onPeerIdCollision = vi.fn();
+    const release = await manager.tryReuseLoroPeerId(DOC_ID, doc, {
+      detectCollisions: true,
+      onPeerIdCollision,
+    });
+    doc.getText("text").insert(0, "a");
+    doc.commit();
+
+    const remote = new LoroDoc();
+    remote.import(doc.export({ mode: "update" }));
+    remote.getText("text").insert(1, "b");
+    remote.commit();
+    doc.import(remote.export({ mode: "update" }));
+
+    expect(doc.peerIdStr).toBe(release.value);
+    expect(onPeerIdCollision).not.toHaveBeenCalled();
+    await release();
+  });
+
+  it("leaves the peer id alone unless detection is enabled", async () => {
+    const doc = new LoroDoc();
+    const release = await tryReuseLoroPeerId("loro-doc-undetected", doc);
+
+    collide(doc);
+
+    expect(doc.peerIdStr).toBe(release.value);
+    await release();
+  });
+});
+
+
+describe("rotating peer IDs", () => {
+  it("switches to a new lease and caches the previous peer id", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const doc = new LoroDoc();
+    const release = await manager.tryReuseLoroPeerId(DOC_ID, doc);
+    const previous = release.value;
+    doc.getText("text").insert(0, "a");
+    doc.commit();
+
+    const next = await release.rotate();
+
+    expect(next).not.toBe(previous);
+    expect(doc.peerIdStr).toBe(next);
+    expect(release.value).toBe(next);
+    expect(release.isReleased()).toBe(false);
+    const snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+    expect(snapshot.active.map((entry) => entry.peerId)).toEqual([next]);
+    expect(snapshot.available.map((entry) => entry.peerId)).toEqual([previous]);
+
+    await release();
+    expect(release.isReleased()).toBe(true);
+  });
+
+  it("reuses a cached peer id when rotating", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const doc = new LoroDoc();
+    const release = await manager.tryReuseLoroPeerId(DOC_ID, doc);
+    const first = release.value;
+
+    await release.rotate();
+    doc.getText("text").insert(0, "a");
+    doc.commit();
+
+    expect(await release.rotate()).toBe(first);
+    await release();
+  });
+
+  it("keeps the scope across rotations", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const release = await manager.tryReuseLoroPeerId(DOC_ID, new LoroDoc(), {
+      scope: { user: "alice" },
+    });
+
+    await release.rotate();
+
+    const snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+    expect(snapshot.active[0].scope).toEqual({ user: "alice" });
+    expect(snapshot.available[0].scope).toEqual({ user: "alice" });
+    await release();
+  });
+
+  it("replaces the scope when released", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const doc = new LoroDoc();
+    const first = await manager.tryReuseLoroPeerId(DOC_ID, doc, { scope: { user: "alice" } });
+    const second = await manager.tryReuseLoroPeerId(DOC_ID, doc, { scope: { user: "alice" } });
+
+    await first(undefined, { scope: { user: "ignored" } });
+    await second.release(undefined, { scope: { user: null } });
+
+    const snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+    expect(snapshot.available.map((entry) => entry.scope)).toEqual([{ user: null }]);
+  });
+
+  it("rejects once the handle was released", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const release = await manager.tryReuseLoroPeerId(DOC_ID, new LoroDoc());
+    await release();
+
+    await expect(release.rotate()).rejects.toBeInstanceOf(TypeError);
+  });
+});
+
+describe("checkpoints", () => {
+  it("caches the peer id of a crashed session at its checkpoint", async () => {
+    const storage = new MemoryStorage();
+    const crashed = createPeerLeaseManager({
+      storage,
+      timings: { leaseTtlMs: 20, leaseHeartbeatIntervalMs: 60_000 },
+    });
+    const doc = new LoroDoc();
+    const release = await crashed.tryReuseLoroPeerId(DOC_ID, doc);
+    doc.getText("text").insert(0, "saved");
+    doc.commit();
+    const saved = doc.export({ mode: "snapshot" });
+    await release.checkpoint();
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    const manager = createPeerLeaseManager({ storage });
+    const reopened = LoroDoc.fromSnapshot(saved);
+    const next = await manager.tryReuseLoroPeerId(DOC_ID, reopened);
+
+    expect(reopened.peerIdStr).toBe(release.value);
+    await next();
+  });
+});
+
+describe("persistence hook", () => {
+  const createHook = () => {
+    let listener: ((frontiers?: Frontiers | string) => void) | undefined;
+    const unsubscribe = vi.fn(() => {
+      listener = undefined;
+    });
+    return {
+      subscribe: (onPersisted: (frontiers?: Frontiers | string) => void) => {
+        listener = onPersisted;
+        return unsubscribe;
+      },
+      persisted: (frontiers?: Frontiers | string) => listener?.(frontiers),
+      unsubscribe,
+    };
+  };
+
+  it("checkpoints persisted frontiers at most once per throttle interval", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const hook = createHook();
+    const doc = new LoroDoc();
+    const release = await manager.tryReuseLoroPeerId(DOC_ID, doc, {
+      persistence: { subscribe: hook.subscribe, throttleMs: 200 },
+    });
+    const checkpointOf = async () =>
+      (await manager.inspectPeerLeaseState(DOC_ID)).active[0].checkpoint;
+
+    doc.getText("text").insert(0, "a");
+    doc.commit();
+    const first = JSON.stringify(doc.frontiers());
+    hook.persisted();
+    await vi.waitFor(async () => expect(await checkpointOf()).toBe(first));
+
+    doc.getText("text").insert(1, "b");
+    doc.commit();
+    hook.persisted(doc.frontiers());
+    const second = JSON.stringify(doc.frontiers());
+    doc.getText("text").insert(2, "c");
+    doc.commit();
+    expect(await checkpointOf()).toBe(first);
+    await vi.waitFor(async () => expect(await checkpointOf()).toBe(second));
+
+    await release();
+    expect(hook.unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it("subscribes once per document of a batch", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const listeners = new Map<string, (frontiers?: Frontiers | string) => void>();
+    const docs = [new LoroDoc(), new LoroDoc()];
+    const releases = await manager.tryReuseLoroPeerIds(
+      [
+        ["batch-a", docs[0]],
+        ["batch-b", docs[1]],
+      ],
+      {
+        persistence: {
+          subscribe: (onPersisted, docId) => {
+            listeners.set(docId, onPersisted);
+            return () => listeners.delete(docId);
+          },
+        },
+      },
+    );
+    expect(Array.from(listeners.keys()).sort()).toEqual(["batch-a", "batch-b"]);
+
+    docs[1].getText("text").insert(0, "b");
+    docs[1].commit();
+    listeners.get("batch-b")?.();
+    const saved = JSON.stringify(docs[1].frontiers());
+    await vi.waitFor(async () =>
+      expect((await manager.inspectPeerLeaseState("batch-b")).active[0].checkpoint).toBe(saved),
+    );
+    expect((await manager.inspectPeerLeaseState("batch-a")).active[0].checkpoint).toBeUndefined();
+
+    await Promise.all(releases.map((release) => release()));
+    expect(listeners.size).toBe(0);
+  });
+
+  it("rejects a persistence option without a subscribe function", async () => {
+    await expect(
+      tryReuseLoroPeerId(DOC_ID, new LoroDoc(), {
+        persistence: {} as unknown as LoroPeerIdPersistence,
+      }),
+    ).rejects.toThrow(/options.persistence.subscribe/);
+  });
+});
+
+describe("shared leases", () => {
+  it("shares one lease between callers opening the same doc", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const doc = new LoroDoc();
+    const [editor, preview] = await Promise.all([
+      manager.tryReuseLoroPeerId(DOC_ID, doc),
+      manager.tryReuseLoroPeerId(DOC_ID, doc),
+    ]);
+
+    expect(editor.value).toBe(preview.value);
+    expect(doc.peerIdStr).toBe(editor.value);
+    expect((await manager.inspectPeerLeaseState(DOC_ID)).active).toHaveLength(1);
+
+    await editor();
+    expect(editor.isReleased()).toBe(true);
+    expect(preview.isReleased()).toBe(false);
+    expect(doc.peerIdStr).toBe(preview.value);
+    expect((await manager.inspectPeerLeaseState(DOC_ID)).active).toHaveLength(1);
+
+    await preview();
+    expect(doc.peerIdStr).not.toBe(preview.value);
+    const snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+    expect(snapshot.active).toEqual([]);
+    expect(snapshot.available.map((entry) => entry.peerId)).toEqual([preview.value]);
+  });
+
+  it("acquires a new lease once every handle was released", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const doc = new LoroDoc();
+    const first = await manager.tryReuseLoroPeerId(DOC_ID, doc);
+    await first();
+
+    const second = await manager.tryReuseLoroPeerId(DOC_ID, doc);
+    expect(second.isReleased()).toBe(false);
+    expect(doc.peerIdStr).toBe(second.value);
+    await second();
+  });
+
+  it("releases the shared lease when any handle's page is hidden", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const doc = new LoroDoc();
+    const [editor, preview] = await Promise.all([
+      manager.tryReuseLoroPeerId(DOC_ID, doc),
+      manager.tryReuseLoroPeerId(DOC_ID, doc),
+    ]);
+    const peerId = editor.value;
+    const listeners = new Map<string, (event: { persisted?: boolean }) => void>();
+    attachPeerLeaseLifecycle({
+      release: preview,
+      doc,
+      target: {
+        addEventListener: (type, listener) => listeners.set(type, listener),
+        removeEventListener: (type) => listeners.delete(type),
+      },
+    });
+
+    // Only the preview attached lifecycle handling, but the editor goes away with the page too.
+    listeners.get("pagehide")?.({ persisted: false });
+    expect(editor.isReleased()).toBe(true);
+    expect(preview.isReleased()).toBe(true);
+    expect(doc.peerIdStr).not.toBe(peerId);
+
+    await Promise.all([editor(), preview()]);
+    const snapshot = await manager.inspectPeerLeaseState(DOC_ID);
+    expect(snapshot.active).toEqual([]);
+    expect(snapshot.available.map((entry) => entry.peerId)).toEqual([peerId]);
+  });
+
+  it("opens a new lease only after the last release settled", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const doc = new LoroDoc();
+    const first = await manager.tryReuseLoroPeerId(DOC_ID, doc);
+
+    // The release waits for the rotation, then gives the doc a random peer ID.
+    const rotating = first.rotate();
+    const releasing = first();
+    const second = await manager.tryReuseLoroPeerId(DOC_ID, doc);
+    await Promise.all([rotating, releasing]);
+
+    expect(second.isReleased()).toBe(false);
+    expect(doc.peerIdStr).toBe(second.value);
+    await second();
+  });
+
+  it("joins shared leases from a batch", async () => {
+    const manager = createPeerLeaseManager({ storage: new MemoryStorage() });
+    const shared = new LoroDoc();
+    const other = new LoroDoc();
+    const single = await manager.tryReuseLoroPeerId(DOC_ID, shared);
+    const [joined, opened] = await manager.tryReuseLoroPeerIds([
+      [DOC_ID, shared],
+      ["loro-doc-other", other],
+    ]);
+
+    expect(joined.value).toBe(single.value);
+    expect(other.peerIdStr).toBe(opened.value);
+    expect((await manager.inspectPeerLeaseState(DOC_ID)).active).toHaveLength(1);
+
+    await Promise.all([single(), joined(), opened()]);
+    expect((await manager.inspectPeerLeaseState(DOC_ID)).active).toEqual([]);
+  });
 });
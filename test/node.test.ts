@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { hostname, tmpdir } from "node:os";
+import { join } from "node:path";
+import { PeerLeaseTimeoutError } from "../src/errors.js";
+import {
+  FileLockMutex,
+  FileStorage,
+  createFilePeerLeaseManager,
+} from "../src/node.js";
+
+const BASE_OPTIONS = {
+  lockTtlMs: 200,
+  acquireTimeoutMs: 100,
+  retryDelayMs: 5,
+  retryJitterMs: 0,
+  heartbeatIntervalFraction: 0.5
+};
+
+const cmpVersion = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true });
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
+
+let directory: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), "peer-lease-"));
+});
+
+afterEach(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("FileStorage", () => {
+  it("persists values across instances sharing a directory", () => {
+    const first = new FileStorage(directory);
+    const second = new FileStorage(directory);
+
+    first.setItem("peer-lease:state:a/b", "value");
+    expect(second.getItem("peer-lease:state:a/b")).toBe("value");
+
+    second.removeItem("peer-lease:state:a/b");
+    expect(first.getItem("peer-lease:state:a/b")).toBeNull();
+  });
+
+  it("enumerates stored keys while skipping in-flight writes", () => {
+    const storage = new FileStorage(directory);
+    storage.setItem("peer-lease:state:a/b", "value");
+    storage.setItem("peer-lease:pending:c.tmp", "[]");
+    writeFileSync(join(directory, "peer-lease%3Astate%3Ad.1234.18f-abc-0.tmp"), "partial");
+
+    expect(storage.keys().sort()).toEqual(["peer-lease:pending:c.tmp", "peer-lease:state:a/b"]);
+  });
+});
+
+describe("FileLockMutex", () => {
+  it("serializes critical sections across instances", async () => {
+    const path = join(directory, "doc.lock");
+    const first = new FileLockMutex({ path, options: BASE_OPTIONS });
+    const second = new FileLockMutex({ path, options: BASE_OPTIONS });
+    const events: string[] = [];
+
+    const holder = first.runExclusive(async () => {
+      events.push("first:start");
+      await sleep(20);
+      events.push("first:end");
+    });
+    const contender = second.runExclusive(() => {
+      events.push("second");
+    });
+
+    await Promise.all([holder, contender]);
+    expect(events).toEqual(["first:start", "first:end", "second"]);
+  });
+
+  it("times out while another holder keeps the lock fresh", async () => {
+    const path = join(directory, "doc.lock");
+    const holder = new FileLockMutex({ path, options: BASE_OPTIONS });
+    const contender = new FileLockMutex({
+      path,
+      options: { ...BASE_OPTIONS, acquireTimeoutMs: 30 }
+    });
+
+    const held = holder.runExclusive(() => sleep(60));
+    await sleep(5);
+
+    await expect(contender.runExclusive(() => undefined)).rejects.toThrow(/Timed out/);
+    await held;
+  });
+
+  it("never refreshes or removes a lock file another holder took over", async () => {
+    const path = join(directory, "doc.lock");
+    const mutex = new FileLockMutex({ path, options: BASE_OPTIONS });
+    const foreign = JSON.stringify({
+      token: "foreign",
+      pid: process.pid,
+      hostname: hostname(),
+      expiresAt: Date.now() + 60_000,
+      fence: 9
+    });
+
+    await mutex.runExclusive(async () => {
+      // As if our record expired and another process took over.
+      writeFileSync(path, foreign);
+      await sleep(150);
+      expect(readFileSync(path, "utf8")).toBe(foreign);
+    });
+
+    expect(readFileSync(path, "utf8")).toBe(foreign);
+  });
+
+  it("only evicts a stale lock while holding the guard", async () => {
+    const path = join(directory, "doc.lock");
+    const mutex = new FileLockMutex({ path, options: BASE_OPTIONS });
+    writeFileSync(
+      path,
+      JSON.stringify({ token: "expired", pid: process.pid, hostname: hostname(), expiresAt: Date.now() - 1, fence: 1 })
+    );
+    writeFileSync(`${path}.guard`, "");
+
+    await expect(mutex.runExclusive(() => undefined, { timeoutMs: 0 })).rejects.toBeInstanceOf(
+      PeerLeaseTimeoutError
+    );
+    expect(existsSync(path)).toBe(true);
+
+    // A guard older than the lock TTL was abandoned by a crashed process.
+    const abandonedAt = new Date(Date.now() - 1_000);
+    utimesSync(`${path}.guard`, abandonedAt, abandonedAt);
+    await expect(mutex.runExclusive(() => "taken")).resolves.toBe("taken");
+  });
+
+  it("makes a single attempt with a zero timeout", async () => {
+    const path = join(directory, "doc.lock");
+    const holder = new FileLockMutex({ path, options: BASE_OPTIONS });
+    const contender = new FileLockMutex({ path, options: BASE_OPTIONS });
+
+    const held = holder.runExclusive(() => sleep(30));
+
+    await expect(contender.runExclusive(() => undefined, { timeoutMs: 0 })).rejects.toBeInstanceOf(
+      PeerLeaseTimeoutError
+    );
+    await held;
+    await expect(contender.runExclusive(() => "free", { timeoutMs: 0 })).resolves.toBe("free");
+  });
+
+  it("reclaims expired records and records of dead processes", async () => {
+    const path = join(directory, "doc.lock");
+    const mutex = new FileLockMutex({ path, options: BASE_OPTIONS });
+
+    writeFileSync(
+      path,
+      JSON.stringify({ token: "expired", pid: process.pid, hostname: hostname(), expiresAt: Date.now() - 1, fence: 1 })
+    );
+    await expect(mutex.runExclusive(() => "expired")).resolves.toBe("expired");
+
+    writeFileSync(
+      path,
+      JSON.stringify({ token: "crashed", pid: 2 ** 30, hostname: hostname(), expiresAt: Date.now() + 60_000, fence: 2 })
+    );
+    await expect(mutex.runExclusive(() => "crashed")).resolves.toBe("crashed");
+  });
+
+  it("lets only one of two contenders take over the same stale record", async () => {
+    const path = join(directory, "doc.lock");
+    const stale = { token: "stale", pid: process.pid, hostname: hostname(), expiresAt: Date.now() - 1, fence: 1 };
+    writeFileSync(path, JSON.stringify(stale));
+
+    const first = new FileLockMutex({ path, options: BASE_OPTIONS });
+    const second = new FileLockMutex({ path, options: BASE_OPTIONS });
+    // The second contender judged the record stale before the first one took
+    // over; only its read inside the guard sees the first one's lock.
+    const lagging = second as unknown as { readLock: () => unknown };
+    const readLock = lagging.readLock.bind(second);
+    let laggingReads = 1;
+    lagging.readLock = () => (laggingReads-- > 0 ? stale : readLock());
+
+    const events: string[] = [];
+    const holder = first.runExclusive(async () => {
+      events.push("first:start");
+      await sleep(20);
+      events.push("first:end");
+    });
+    const contender = second.runExclusive(() => {
+      events.push("second");
+    });
+
+    await Promise.all([holder, contender]);
+    expect(events).toEqual(["first:start", "first:end", "second"]);
+  });
+});
+
+describe("createFilePeerLeaseManager", () => {
+  it("coordinates leases between managers sharing a data directory", async () => {
+    const first = createFilePeerLeaseManager(directory);
+    const second = createFilePeerLeaseManager(directory);
+
+    const lease = await first.acquirePeerId("doc", () => "peer-a", "1", cmpVersion);
+    const concurrent = await second.acquirePeerId("doc", () => "peer-b", "1", cmpVersion);
+    expect(concurrent.value).toBe("peer-b");
+
+    await lease.release("2");
+    const reused = await second.acquirePeerId("doc", () => "peer-c", "3", cmpVersion);
+    expect(reused.value).toBe("peer-a");
+
+    await Promise.all([concurrent.release("2"), reused.release("4")]);
+  });
+});
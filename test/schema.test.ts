@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import {
+  CURRENT_SCHEMA_VERSION,
+  CorruptRecordError,
+  UnsupportedSchemaError,
+  decodeRecord,
+  encodeRecord,
+} from "../src/schema.js";
+
+describe("stored record envelopes", () => {
+  it("round-trips payloads through the current schema", () => {
+    const raw = encodeRecord({ available: [], active: {}, epoch: 3 });
+
+    expect(JSON.parse(raw)).toEqual({
+      schema: CURRENT_SCHEMA_VERSION,
+      checksum: expect.stringMatching(/^[0-9a-f]{8}$/),
+      data: { available: [], active: {}, epoch: 3 },
+    });
+    expect(decodeRecord("state", raw)).toEqual({ available: [], active: {}, epoch: 3 });
+  });
+
+  it("upgrades records written before envelopes existed", () => {
+    const state = { available: [{ id: "peer", version: "1" }], active: {} };
+    const pending = [{ id: "peer", version: "2" }];
+
+    expect(decodeRecord("state", JSON.stringify(state))).toEqual(state);
+    expect(decodeRecord("pending", JSON.stringify(pending))).toEqual(pending);
+  });
+
+  it("returns undefined for missing records", () => {
+    expect(decodeRecord("state", null)).toBeUndefined();
+    expect(decodeRecord("state", "")).toBeUndefined();
+  });
+
+  it("rejects malformed records and checksum mismatches", () => {
+    const raw = encodeRecord({ available: [], active: {}, epoch: 3 });
+    const tampered = raw.replace('"epoch":3', '"epoch":4');
+
+    expect(() => decodeRecord("state", "{not json")).toThrow(CorruptRecordError);
+    expect(() => decodeRecord("state", tampered)).toThrow(/checksum mismatch/);
+  });
+
+  it("refuses records written with a newer schema", () => {
+    const raw = JSON.stringify({ schema: CURRENT_SCHEMA_VERSION + 1, data: {} });
+
+    expect(() => decodeRecord("state", raw)).toThrow(UnsupportedSchemaError);
+  });
+});